@@ -0,0 +1,712 @@
+/**
+ * NanoPy SDK ABI Codec
+ * Solidity ABI encoding/decoding for all types: dynamic types, arrays and tuples,
+ * and human-readable ABI parsing/formatting
+ */
+
+import { ABI, ABIFunction, ABIInput, ABIParameter } from './types';
+import { bytesToHex, hexToBytes, toChecksumAddress } from './utils';
+
+type ParamInput = string | ABIParameter;
+
+interface ParamType {
+  type: string;
+  name?: string;
+  // Array element type and length (-1 for dynamic T[])
+  arrayChildren?: ParamType;
+  arrayLength?: number;
+  components?: ParamType[];
+}
+
+/**
+ * Encode values for list of parameters (function arguments, constructor, return data)
+ * @param params - Parameter types (ABI parameters or type strings)
+ * @param values - Values in the same order
+ * @returns Encoded hex without selector, with 0x prefix
+ *
+ * @example
+ * ```typescript
+ * encodeParameters(['address[]', 'uint256[]'], [[a, b], [1n, 2n]]);
+ * encodeParameters([{ type: 'tuple', name: 'item', components: [...] }], [{ id: 1, name: 'Sword' }]);
+ * ```
+ */
+export function encodeParameters(params: ParamInput[], values: any[]): string {
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} values, got ${values.length}`);
+  }
+  return '0x' + encodeTuple(params.map(parseParam), values);
+}
+
+/**
+ * Decode data for list of parameters
+ * @param params - Parameter types (ABI parameters or type strings)
+ * @param data - Encoded hex
+ * @returns Decoded values (bigint for integers, hex for bytes, object for named tuples)
+ */
+export function decodeParameters(params: ParamInput[], data: string): any[] {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const types = params.map(parseParam);
+  return decodeTuple(types, hex, 0, 'params');
+}
+
+/**
+ * Encode single value (same as encodeParameters with one parameter)
+ */
+export function encodeParameter(param: ParamInput, value: any): string {
+  return encodeParameters([param], [value]);
+}
+
+/**
+ * Decode single value whose head word is at `offset` (hex chars, no 0x).
+ * Offsets of dynamic values are relative to the start of `data`.
+ * @returns Value and offset of the next head word
+ */
+export function decodeParameter(param: ParamInput, data: string, offset: number = 0): [any, number] {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const type = parseParam(param);
+  if (isDynamic(type)) {
+    const pointer = readLength(hex, offset, type.type);
+    return [decodeValue(type, hex, pointer * 2), offset + 64];
+  }
+  return [decodeValue(type, hex, offset), offset + staticSize(type)];
+}
+
+/**
+ * Canonical type string used in signatures (tuples expanded)
+ * @example formatType({ type: 'tuple[]', components: [{ type: 'uint256' }, { type: 'address' }] }) // "(uint256,address)[]"
+ */
+export function formatType(param: ParamInput): string {
+  return canonical(parseParam(param));
+}
+
+/**
+ * Check if type is dynamically sized (encoded in tail with offset)
+ */
+export function isDynamicType(param: ParamInput): boolean {
+  return isDynamic(parseParam(param));
+}
+
+// ============ Human-Readable ABI ============
+
+const STATE_MUTABILITY = ['pure', 'view', 'nonpayable', 'payable'];
+
+/**
+ * Convert human-readable signatures to JSON ABI (JSON entries are kept as is)
+ *
+ * @example
+ * ```typescript
+ * const abi = parseAbi([
+ *   'function transfer(address to, uint256 amount) returns (bool)',
+ *   'function balanceOf(address owner) view returns (uint256)',
+ *   'event Transfer(address indexed from, address indexed to, uint256 value)',
+ *   'error InsufficientBalance(uint256 available, uint256 required)'
+ * ]);
+ * ```
+ */
+export function parseAbi(abi: ABIInput): ABI {
+  return abi.map(item => typeof item === 'string' ? parseAbiItem(item) : item);
+}
+
+/**
+ * Parse single human-readable signature
+ * Supports function, event, error, constructor, fallback and receive;
+ * the "function" keyword is optional
+ */
+export function parseAbiItem(signature: string): ABIFunction {
+  const sig = signature.trim().replace(/\s+/g, ' ');
+  const open = sig.indexOf('(');
+  if (open === -1) {
+    throw new Error(`Invalid ABI signature: ${signature}`);
+  }
+
+  const words = sig.slice(0, open).trim().split(' ').filter(Boolean);
+  let kind = 'function';
+  if (['function', 'event', 'error', 'constructor', 'fallback', 'receive'].includes(words[0])) {
+    kind = words.shift()!;
+  }
+  if (['constructor', 'fallback', 'receive'].includes(kind) ? words.length !== 0 : words.length !== 1) {
+    throw new Error(`Invalid ABI signature: ${signature}`);
+  }
+  const name = words[0];
+  if (name !== undefined && !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+    throw new Error(`Invalid name "${name}" in ABI signature: ${signature}`);
+  }
+
+  const close = matchingParen(sig, open);
+  const inputs = parseParamList(sig.slice(open + 1, close), kind === 'event');
+
+  // Modifiers and return values
+  let outputs: ABIParameter[] | undefined;
+  let stateMutability: ABIFunction['stateMutability'];
+  let anonymous = false;
+  let rest = sig.slice(close + 1).trim();
+
+  while (rest) {
+    const returns = /^returns ?\(/.exec(rest);
+    if (returns && kind === 'function' && !outputs) {
+      const start = returns[0].length - 1;
+      const end = matchingParen(rest, start);
+      outputs = parseParamList(rest.slice(start + 1, end), false);
+      rest = rest.slice(end + 1).trim();
+      continue;
+    }
+
+    const word = /^[^\s(]+/.exec(rest)?.[0];
+    if (!word) {
+      throw new Error(`Invalid ABI signature: ${signature}`);
+    }
+    rest = rest.slice(word.length).trim();
+
+    if (STATE_MUTABILITY.includes(word) && kind !== 'event' && kind !== 'error') {
+      stateMutability = word as ABIFunction['stateMutability'];
+    } else if (word === 'constant') {
+      stateMutability = 'view';
+    } else if (word === 'anonymous' && kind === 'event') {
+      anonymous = true;
+    } else if (!['external', 'public'].includes(word) || kind === 'event' || kind === 'error') {
+      throw new Error(`Unexpected "${word}" in ABI signature: ${signature}`);
+    }
+  }
+
+  switch (kind) {
+    case 'event':
+      return { type: 'event', name, inputs, anonymous };
+    case 'error':
+      return { type: 'error', name, inputs };
+    case 'constructor':
+      return { type: 'constructor', inputs, stateMutability: stateMutability || 'nonpayable' };
+    case 'fallback':
+      return { type: 'fallback', stateMutability: stateMutability || 'nonpayable' };
+    case 'receive':
+      return { type: 'receive', stateMutability: 'payable' };
+    default:
+      return {
+        type: 'function',
+        name,
+        inputs,
+        outputs: outputs || [],
+        stateMutability: stateMutability || 'nonpayable'
+      };
+  }
+}
+
+/**
+ * Format ABI entry as human-readable signature
+ * @param item - JSON ABI entry
+ * @param format - 'full' (with names), 'minimal' (types only) or 'sighash' (as used for selectors)
+ *
+ * @example
+ * ```typescript
+ * formatAbiItem(abiItem);            // "function balanceOf(address owner) view returns (uint256)"
+ * formatAbiItem(abiItem, 'minimal'); // "function balanceOf(address) view returns (uint256)"
+ * formatAbiItem(abiItem, 'sighash'); // "balanceOf(address)"
+ * ```
+ */
+export function formatAbiItem(item: ABIFunction, format: 'full' | 'minimal' | 'sighash' = 'full'): string {
+  const inputs = item.inputs || [];
+
+  if (format === 'sighash') {
+    if (!item.name) {
+      throw new Error(`Cannot format ${item.type} as sighash`);
+    }
+    return `${item.name}(${inputs.map(formatType).join(',')})`;
+  }
+
+  const params = (list: ABIParameter[]) => list
+    .map(p => formatParam(p, format))
+    .join(format === 'full' ? ', ' : ',');
+  const mutability = item.stateMutability && item.stateMutability !== 'nonpayable'
+    ? ' ' + item.stateMutability
+    : '';
+
+  switch (item.type) {
+    case 'event':
+      return `event ${item.name}(${params(inputs)})${item.anonymous ? ' anonymous' : ''}`;
+    case 'error':
+      return `error ${item.name}(${params(inputs)})`;
+    case 'constructor':
+      return `constructor(${params(inputs)})${mutability}`;
+    case 'fallback':
+      return `fallback() external${mutability}`;
+    case 'receive':
+      return 'receive() external payable';
+    default: {
+      const outputs = item.outputs && item.outputs.length > 0
+        ? ` returns (${params(item.outputs)})`
+        : '';
+      return `function ${item.name}(${params(inputs)})${mutability}${outputs}`;
+    }
+  }
+}
+
+function formatParam(param: ABIParameter, format: 'full' | 'minimal'): string {
+  let type = formatType(param);
+  if (format === 'full' && param.components) {
+    const suffix = param.type.slice('tuple'.length);
+    type = `tuple(${param.components.map(c => formatParam(c, format)).join(', ')})${suffix}`;
+  }
+  if (param.indexed) {
+    type += ' indexed';
+  }
+  if (format === 'full' && param.name) {
+    type += ' ' + param.name;
+  }
+  return type;
+}
+
+function parseParamList(str: string, isEvent: boolean): ABIParameter[] {
+  return splitTopLevel(str).map(decl => {
+    const param = parseParamDeclaration(decl);
+    if (isEvent) {
+      param.indexed = !!param.indexed;
+    } else if (param.indexed) {
+      throw new Error(`"indexed" is only allowed in event parameters: ${decl}`);
+    }
+    return param;
+  });
+}
+
+/**
+ * Parse "uint256 amount", "address indexed from", "tuple(uint256 id, string name)[] items"
+ */
+function parseParamDeclaration(decl: string): ABIParameter {
+  let str = decl.trim();
+  let type: string;
+  let components: ABIParameter[] | undefined;
+
+  if (str.startsWith('tuple(') || str.startsWith('tuple (')) {
+    str = str.slice('tuple'.length).trim();
+  }
+
+  if (str.startsWith('(')) {
+    const close = matchingParen(str, 0);
+    components = parseParamList(str.slice(1, close), false);
+    const suffix = /^(\[\d*\])*/.exec(str.slice(close + 1))![0];
+    type = 'tuple' + suffix;
+    str = str.slice(close + 1 + suffix.length);
+  } else {
+    type = str.split(' ')[0];
+    str = str.slice(type.length);
+    type = type.replace(/^(u?int)(?=\[|$)/, '$1256');
+  }
+
+  const param: ABIParameter = { name: '', type };
+  if (components) {
+    param.components = components;
+  }
+
+  for (const word of str.trim().split(' ').filter(Boolean)) {
+    if (word === 'indexed') {
+      param.indexed = true;
+    } else if (['memory', 'calldata', 'storage'].includes(word) || (word === 'payable' && type === 'address')) {
+      continue;
+    } else if (!param.name && /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(word)) {
+      param.name = word;
+    } else {
+      throw new Error(`Invalid parameter: ${decl}`);
+    }
+  }
+
+  // Validates element types
+  parseParam(param);
+  return param;
+}
+
+// ============ Type Parsing ============
+
+function parseParam(param: ParamInput): ParamType {
+  if (typeof param === 'string') {
+    return parseTypeString(param.trim());
+  }
+  return parseType(param.type, param.name, param.components);
+}
+
+function parseType(type: string, name?: string, components?: ABIParameter[]): ParamType {
+  const arrayMatch = /^(.*)\[(\d*)\]$/.exec(type);
+  if (arrayMatch) {
+    const length = arrayMatch[2] === '' ? -1 : parseInt(arrayMatch[2], 10);
+    return {
+      type,
+      name,
+      arrayChildren: parseType(arrayMatch[1], undefined, components),
+      arrayLength: length
+    };
+  }
+
+  if (type === 'tuple') {
+    if (!components) {
+      throw new Error('Tuple type requires components');
+    }
+    return { type, name, components: components.map(c => parseType(c.type, c.name, c.components)) };
+  }
+
+  validateElementaryType(type);
+  return { type: normalizeType(type), name };
+}
+
+/**
+ * Parse type string that may contain inline tuples: "(uint256,address)[]"
+ */
+function parseTypeString(type: string): ParamType {
+  if (!type.startsWith('(')) {
+    return parseType(type);
+  }
+
+  const close = matchingParen(type, 0);
+  const inner = type.slice(1, close);
+  const suffix = type.slice(close + 1);
+  const components: ABIParameter[] = splitTopLevel(inner).map(part => toAbiParameter(part));
+
+  return parseType('tuple' + suffix, undefined, components);
+}
+
+function toAbiParameter(type: string): ABIParameter {
+  if (!type.startsWith('(')) {
+    return { type, name: '' };
+  }
+  const close = matchingParen(type, 0);
+  return {
+    type: 'tuple' + type.slice(close + 1),
+    name: '',
+    components: splitTopLevel(type.slice(1, close)).map(toAbiParameter)
+  };
+}
+
+function matchingParen(str: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < str.length; i++) {
+    if (str[i] === '(') depth++;
+    if (str[i] === ')') depth--;
+    if (depth === 0) return i;
+  }
+  throw new Error(`Unbalanced parentheses in type: ${str}`);
+}
+
+function splitTopLevel(str: string): string[] {
+  if (str.trim() === '') return [];
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of str) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function normalizeType(type: string): string {
+  if (type === 'uint') return 'uint256';
+  if (type === 'int') return 'int256';
+  return type;
+}
+
+function validateElementaryType(type: string): void {
+  if (['address', 'bool', 'string', 'bytes', 'uint', 'int', 'function'].includes(type)) return;
+
+  const intMatch = /^u?int(\d+)$/.exec(type);
+  if (intMatch) {
+    const bits = parseInt(intMatch[1], 10);
+    if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+      throw new Error(`Invalid integer type: ${type}`);
+    }
+    return;
+  }
+
+  const bytesMatch = /^bytes(\d+)$/.exec(type);
+  if (bytesMatch) {
+    const size = parseInt(bytesMatch[1], 10);
+    if (size < 1 || size > 32) {
+      throw new Error(`Invalid bytes type: ${type}`);
+    }
+    return;
+  }
+
+  throw new Error(`Unsupported type: ${type}`);
+}
+
+function canonical(param: ParamType): string {
+  if (param.arrayChildren) {
+    return `${canonical(param.arrayChildren)}[${param.arrayLength === -1 ? '' : param.arrayLength}]`;
+  }
+  if (param.components) {
+    return `(${param.components.map(canonical).join(',')})`;
+  }
+  return param.type;
+}
+
+function isDynamic(param: ParamType): boolean {
+  if (param.type === 'string' || param.type === 'bytes') return true;
+  if (param.arrayChildren) {
+    return param.arrayLength === -1 || isDynamic(param.arrayChildren);
+  }
+  if (param.components) {
+    return param.components.some(isDynamic);
+  }
+  return false;
+}
+
+/**
+ * Size of static type in hex characters
+ */
+function staticSize(param: ParamType): number {
+  if (param.arrayChildren) {
+    return param.arrayLength! * staticSize(param.arrayChildren);
+  }
+  if (param.components) {
+    return param.components.reduce((sum, c) => sum + staticSize(c), 0);
+  }
+  return 64;
+}
+
+// ============ Encoding ============
+
+function encodeTuple(types: ParamType[], values: any[]): string {
+  const headSize = types.reduce((sum, t) => sum + (isDynamic(t) ? 64 : staticSize(t)), 0);
+  let head = '';
+  let tail = '';
+
+  types.forEach((type, i) => {
+    const encoded = encodeValue(type, values[i]);
+    if (isDynamic(type)) {
+      head += encodeUint((headSize + tail.length) / 2);
+      tail += encoded;
+    } else {
+      head += encoded;
+    }
+  });
+
+  return head + tail;
+}
+
+function encodeValue(param: ParamType, value: any): string {
+  if (param.arrayChildren) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for ${param.type}`);
+    }
+    if (param.arrayLength !== -1 && value.length !== param.arrayLength) {
+      throw new Error(`Expected ${param.arrayLength} items for ${param.type}, got ${value.length}`);
+    }
+    const items = encodeTuple(value.map(() => param.arrayChildren!), value);
+    return param.arrayLength === -1 ? encodeUint(value.length) + items : items;
+  }
+
+  if (param.components) {
+    const values = Array.isArray(value)
+      ? value
+      : param.components.map(c => {
+        if (!c.name || !(c.name in value)) {
+          throw new Error(`Missing tuple field: ${c.name || '(unnamed)'}`);
+        }
+        return value[c.name];
+      });
+    if (values.length !== param.components.length) {
+      throw new Error(`Expected ${param.components.length} tuple fields, got ${values.length}`);
+    }
+    return encodeTuple(param.components, values);
+  }
+
+  const type = param.type;
+
+  if (type === 'address') {
+    const hex = String(value).toLowerCase().replace(/^0x/, '');
+    if (!/^[0-9a-f]{40}$/.test(hex)) {
+      throw new Error(`Invalid address: ${value}`);
+    }
+    return hex.padStart(64, '0');
+  }
+
+  if (type === 'bool') {
+    return (value ? '1' : '0').padStart(64, '0');
+  }
+
+  if (type === 'string') {
+    return encodeDynamicBytes(new TextEncoder().encode(value));
+  }
+
+  if (type === 'bytes') {
+    return encodeDynamicBytes(toBytes(value));
+  }
+
+  if (type === 'function') {
+    const hex = toHex(value);
+    if (hex.length !== 48) {
+      throw new Error(`Invalid function value: ${value}`);
+    }
+    return hex.padEnd(64, '0');
+  }
+
+  const bytesMatch = /^bytes(\d+)$/.exec(type);
+  if (bytesMatch) {
+    const hex = toHex(value);
+    if (hex.length / 2 > parseInt(bytesMatch[1], 10)) {
+      throw new Error(`Value too long for ${type}: 0x${hex}`);
+    }
+    return hex.padEnd(64, '0');
+  }
+
+  const intMatch = /^(u?)int(\d+)$/.exec(type);
+  if (intMatch) {
+    const bits = BigInt(intMatch[2]);
+    let num = BigInt(value);
+
+    if (intMatch[1] === 'u') {
+      if (num < 0n || num >= 1n << bits) {
+        throw new Error(`Value ${num} out of range for ${type}`);
+      }
+    } else {
+      const limit = 1n << (bits - 1n);
+      if (num < -limit || num >= limit) {
+        throw new Error(`Value ${num} out of range for ${type}`);
+      }
+      if (num < 0n) {
+        num = (1n << 256n) + num;
+      }
+    }
+
+    return num.toString(16).padStart(64, '0');
+  }
+
+  throw new Error(`Unsupported type: ${type}`);
+}
+
+function encodeUint(value: number | bigint): string {
+  return BigInt(value).toString(16).padStart(64, '0');
+}
+
+function encodeDynamicBytes(bytes: Uint8Array): string {
+  let hex = bytesToHex(bytes).slice(2);
+  // Pad to 32-byte boundary
+  if (hex.length % 64 !== 0) {
+    hex = hex.padEnd(hex.length + 64 - (hex.length % 64), '0');
+  }
+  return encodeUint(bytes.length) + hex;
+}
+
+function toHex(value: string | Uint8Array): string {
+  if (typeof value === 'string') {
+    return value.startsWith('0x') ? value.slice(2) : value;
+  }
+  return bytesToHex(value).slice(2);
+}
+
+function toBytes(value: string | Uint8Array): Uint8Array {
+  return typeof value === 'string' ? hexToBytes(value) : value;
+}
+
+// ============ Decoding ============
+
+/**
+ * Decode tuple whose head starts at `base` (hex char offset)
+ */
+function decodeTuple(types: ParamType[], data: string, base: number, context: string): any[] {
+  const results: any[] = [];
+  let position = base;
+
+  for (const type of types) {
+    if (isDynamic(type)) {
+      const offset = readLength(data, position, context);
+      results.push(decodeValue(type, data, base + offset * 2));
+      position += 64;
+    } else {
+      results.push(decodeValue(type, data, position));
+      position += staticSize(type);
+    }
+  }
+
+  return results;
+}
+
+function decodeValue(param: ParamType, data: string, position: number): any {
+  if (param.arrayChildren) {
+    let length = param.arrayLength!;
+    let base = position;
+    if (length === -1) {
+      length = readLength(data, position, param.type);
+      base = position + 64;
+    }
+    const childSize = isDynamic(param.arrayChildren) ? 64 : staticSize(param.arrayChildren);
+    if (base + length * childSize > data.length) {
+      throw new Error(`Data too short for ${param.type} of length ${length}`);
+    }
+    return decodeTuple(new Array(length).fill(param.arrayChildren), data, base, param.type);
+  }
+
+  if (param.components) {
+    const values = decodeTuple(param.components, data, position, 'tuple');
+    if (param.components.every(c => c.name)) {
+      const result: Record<string, any> = {};
+      param.components.forEach((c, i) => {
+        result[c.name!] = values[i];
+      });
+      return result;
+    }
+    return values;
+  }
+
+  const type = param.type;
+  const word = readWord(data, position, type);
+
+  if (type === 'address') {
+    return toChecksumAddress('0x' + word.slice(24));
+  }
+
+  if (type === 'bool') {
+    return BigInt('0x' + word) !== 0n;
+  }
+
+  if (type === 'string' || type === 'bytes') {
+    const length = Number(BigInt('0x' + word));
+    const start = position + 64;
+    if (start + length * 2 > data.length) {
+      throw new Error(`Data too short for ${type} of length ${length}`);
+    }
+    const hex = data.slice(start, start + length * 2);
+    return type === 'string'
+      ? new TextDecoder().decode(hexToBytes(hex))
+      : '0x' + hex;
+  }
+
+  if (type === 'function') {
+    return '0x' + word.slice(0, 48);
+  }
+
+  const bytesMatch = /^bytes(\d+)$/.exec(type);
+  if (bytesMatch) {
+    return '0x' + word.slice(0, parseInt(bytesMatch[1], 10) * 2);
+  }
+
+  const intMatch = /^(u?)int(\d+)$/.exec(type);
+  if (intMatch) {
+    const bits = BigInt(intMatch[2]);
+    let num = BigInt('0x' + word);
+    if (intMatch[1] === 'u') {
+      return num & ((1n << bits) - 1n);
+    }
+    num = BigInt.asIntN(256, num);
+    return BigInt.asIntN(Number(bits), num);
+  }
+
+  throw new Error(`Unsupported type: ${type}`);
+}
+
+function readWord(data: string, position: number, type: string): string {
+  if (position + 64 > data.length) {
+    throw new Error(`Data too short to decode ${type}`);
+  }
+  return data.slice(position, position + 64);
+}
+
+function readLength(data: string, position: number, type: string): number {
+  const value = BigInt('0x' + readWord(data, position, type));
+  if (value > BigInt(data.length)) {
+    throw new Error(`Invalid offset or length while decoding ${type}`);
+  }
+  return Number(value);
+}
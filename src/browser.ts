@@ -21,11 +21,25 @@
  *
  * // Or switch to testnet
  * await provider.switchToNetwork('testnet');
+ *
+ * // Use token and game helpers with the MetaMask account (BrowserProvider is a Signer)
+ * const client = new NanoPy(NETWORKS.mainnet);
+ * await client.erc20('0x...').transfer(provider, '0x...recipient', '100');
  * ```
  */
 
-import { NETWORKS, NetworkConfig, TransactionRequest } from './types';
+import { buildTypedData } from './eip712';
+import {
+  NETWORKS,
+  NetworkConfig,
+  TransactionRequest,
+  Signer,
+  TypedDataDomain,
+  TypedDataTypes,
+  TypedDataPayload
+} from './types';
 import * as utils from './utils';
+import { NanoPyError, toNanoPyError } from './errors';
 
 // Ethereum provider interface (MetaMask)
 interface EthereumProvider {
@@ -51,7 +65,7 @@ export interface BrowserProviderOptions {
   onDisconnect?: () => void;
 }
 
-export class BrowserProvider {
+export class BrowserProvider implements Signer {
   private _account: string | null = null;
   private _chainId: number | null = null;
   private _network: NetworkType = 'mainnet';
@@ -94,11 +108,22 @@ export class BrowserProvider {
    */
   get ethereum(): EthereumProvider {
     if (!window.ethereum) {
-      throw new Error('MetaMask not installed. Please install MetaMask extension.');
+      throw new NanoPyError('MetaMask not installed. Please install MetaMask extension.', 'NOT_CONNECTED');
     }
     return window.ethereum;
   }
 
+  /**
+   * Send request to wallet, mapping wallet errors (4001 rejection, node errors) to typed errors
+   */
+  private async request(args: { method: string; params?: any[] }): Promise<any> {
+    try {
+      return await this.ethereum.request(args);
+    } catch (error) {
+      throw toNanoPyError(error);
+    }
+  }
+
   // ============ Account Methods ============
 
   /**
@@ -149,18 +174,18 @@ export class BrowserProvider {
    * Connect to MetaMask
    */
   async connect(): Promise<string> {
-    const accounts = await this.ethereum.request({
+    const accounts = await this.request({
       method: 'eth_requestAccounts'
     }) as string[];
 
     if (accounts.length === 0) {
-      throw new Error('No accounts found');
+      throw new NanoPyError('No accounts found', 'NOT_CONNECTED');
     }
 
     this._account = accounts[0];
 
     // Get chain ID
-    const chainIdHex = await this.ethereum.request({
+    const chainIdHex = await this.request({
       method: 'eth_chainId'
     }) as string;
     this._chainId = parseInt(chainIdHex, 16);
@@ -180,11 +205,19 @@ export class BrowserProvider {
     this._options.onDisconnect?.();
   }
 
+  /**
+   * Get connected account address (Signer interface)
+   */
+  async getAddress(): Promise<string> {
+    if (!this._account) throw new NanoPyError('Not connected', 'NOT_CONNECTED');
+    return this._account;
+  }
+
   /**
    * Get connected accounts (without prompting)
    */
   async getAccounts(): Promise<string[]> {
-    return this.ethereum.request({
+    return this.request({
       method: 'eth_accounts'
     }) as Promise<string[]>;
   }
@@ -213,7 +246,7 @@ export class BrowserProvider {
     const chainIdHex = '0x' + config.chainId.toString(16);
 
     try {
-      await this.ethereum.request({
+      await this.request({
         method: 'wallet_switchEthereumChain',
         params: [{ chainId: chainIdHex }]
       });
@@ -221,7 +254,7 @@ export class BrowserProvider {
       this._chainId = config.chainId;
     } catch (error: any) {
       // Chain not added, add it
-      if (error.code === 4902) {
+      if (error.rpcCode === 4902) {
         await this.addNetwork(network);
         this._network = network;
         this._chainId = config.chainId;
@@ -238,7 +271,7 @@ export class BrowserProvider {
     const config = NETWORKS[network];
     const chainIdHex = '0x' + config.chainId.toString(16);
 
-    await this.ethereum.request({
+    await this.request({
       method: 'wallet_addEthereumChain',
       params: [{
         chainId: chainIdHex,
@@ -261,9 +294,9 @@ export class BrowserProvider {
    */
   async getBalance(address?: string): Promise<bigint> {
     const addr = address || this._account;
-    if (!addr) throw new Error('No account connected');
+    if (!addr) throw new NanoPyError('No account connected', 'NOT_CONNECTED');
 
-    const balanceHex = await this.ethereum.request({
+    const balanceHex = await this.request({
       method: 'eth_getBalance',
       params: [addr, 'latest']
     }) as string;
@@ -285,12 +318,12 @@ export class BrowserProvider {
    * Send native currency via MetaMask
    */
   async send(to: string, amount: string | number): Promise<string> {
-    if (!this._account) throw new Error('Not connected');
+    if (!this._account) throw new NanoPyError('Not connected', 'NOT_CONNECTED');
 
     const value = utils.toWei(amount);
     const valueHex = '0x' + value.toString(16);
 
-    const txHash = await this.ethereum.request({
+    const txHash = await this.request({
       method: 'eth_sendTransaction',
       params: [{
         from: this._account,
@@ -306,7 +339,7 @@ export class BrowserProvider {
    * Send transaction via MetaMask
    */
   async sendTransaction(tx: Partial<TransactionRequest>): Promise<string> {
-    if (!this._account) throw new Error('Not connected');
+    if (!this._account) throw new NanoPyError('Not connected', 'NOT_CONNECTED');
 
     const txParams: any = {
       from: this._account,
@@ -314,15 +347,24 @@ export class BrowserProvider {
     };
 
     // Convert bigint values to hex
-    if (typeof txParams.value === 'bigint') {
-      txParams.value = '0x' + txParams.value.toString(16);
+    for (const key of ['value', 'gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas']) {
+      if (typeof txParams[key] === 'bigint') {
+        txParams[key] = '0x' + txParams[key].toString(16);
+      }
     }
-    if (typeof txParams.gasLimit === 'bigint') {
-      txParams.gas = '0x' + txParams.gasLimit.toString(16);
+    if (txParams.gasLimit !== undefined) {
+      txParams.gas = typeof txParams.gasLimit === 'string'
+        ? txParams.gasLimit
+        : '0x' + txParams.gasLimit.toString(16);
       delete txParams.gasLimit;
     }
+    for (const key of ['type', 'nonce']) {
+      if (typeof txParams[key] === 'number') {
+        txParams[key] = '0x' + txParams[key].toString(16);
+      }
+    }
 
-    const txHash = await this.ethereum.request({
+    const txHash = await this.request({
       method: 'eth_sendTransaction',
       params: [txParams]
     }) as string;
@@ -333,12 +375,12 @@ export class BrowserProvider {
   /**
    * Sign message via MetaMask
    */
-  async signMessage(message: string): Promise<string> {
-    if (!this._account) throw new Error('Not connected');
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    if (!this._account) throw new NanoPyError('Not connected', 'NOT_CONNECTED');
 
-    const signature = await this.ethereum.request({
+    const signature = await this.request({
       method: 'personal_sign',
-      params: [message, this._account]
+      params: [typeof message === 'string' ? message : utils.bytesToHex(message), this._account]
     }) as string;
 
     return signature;
@@ -346,11 +388,29 @@ export class BrowserProvider {
 
   /**
    * Sign typed data (EIP-712) via MetaMask
+   *
+   * @example
+   * ```typescript
+   * // Same arguments as Wallet.signTypedData
+   * await provider.signTypedData(domain, types, value);
+   *
+   * // Or a full eth_signTypedData_v4 payload
+   * await provider.signTypedData({ types, domain, primaryType, message });
+   * ```
    */
-  async signTypedData(typedData: any): Promise<string> {
-    if (!this._account) throw new Error('Not connected');
-
-    const signature = await this.ethereum.request({
+  async signTypedData(
+    domain: TypedDataDomain | TypedDataPayload,
+    types?: TypedDataTypes,
+    value?: Record<string, any>,
+    primaryType?: string
+  ): Promise<string> {
+    if (!this._account) throw new NanoPyError('Not connected', 'NOT_CONNECTED');
+
+    const typedData = types && value
+      ? buildTypedData(domain as TypedDataDomain, types, value, primaryType)
+      : domain;
+
+    const signature = await this.request({
       method: 'eth_signTypedData_v4',
       params: [this._account, JSON.stringify(typedData)]
     }) as string;
@@ -364,7 +424,7 @@ export class BrowserProvider {
    * Call contract method (read-only)
    */
   async call(to: string, data: string): Promise<string> {
-    return this.ethereum.request({
+    return this.request({
       method: 'eth_call',
       params: [{ to, data }, 'latest']
     }) as Promise<string>;
@@ -379,7 +439,7 @@ export class BrowserProvider {
       ...tx
     };
 
-    const gasHex = await this.ethereum.request({
+    const gasHex = await this.request({
       method: 'eth_estimateGas',
       params: [txParams]
     }) as string;
@@ -393,7 +453,7 @@ export class BrowserProvider {
    * Get current block number
    */
   async getBlockNumber(): Promise<number> {
-    const hex = await this.ethereum.request({
+    const hex = await this.request({
       method: 'eth_blockNumber'
     }) as string;
     return parseInt(hex, 16);
@@ -0,0 +1,279 @@
+/**
+ * NanoPy SDK RPC Cache
+ * Caching of immutable chain data with short TTLs for latest reads and reorg invalidation
+ */
+
+import { CacheEntry, CacheOptions, CacheStore } from './types';
+
+/**
+ * In-memory least-recently-used store (default cache store)
+ */
+export class LRUCache implements CacheStore {
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Block tags whose result changes with every block
+const MOVING_TAGS = ['latest', 'safe', 'finalized', 'earliest'];
+
+// Position of the block tag parameter per method
+const BLOCK_TAG_PARAM: Record<string, number> = {
+  eth_getBalance: 1,
+  eth_getTransactionCount: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_call: 1,
+  eth_getBlockByNumber: 0
+};
+
+// Cached until a reorg could change them, then forever
+const BLOCK_SCOPED_METHODS = ['eth_getTransactionReceipt', 'eth_getTransactionByHash'];
+
+// Same on every call
+const STATIC_METHODS = ['eth_chainId', 'net_version'];
+
+/**
+ * How long a result may be cached
+ * - `block`: block it belongs to (entries within reorg depth are invalidated on reorg)
+ * - `ttl`: lifetime in ms, null for immutable data
+ */
+interface CachePolicy {
+  ttl: number | null;
+  block?: number;
+}
+
+/**
+ * Read-through cache used by RPCClient
+ *
+ * Immutable data (blocks by hash, chain id, mined receipts and transactions,
+ * state at past blocks) is kept indefinitely once it is deeper than `reorgDepth`.
+ * Reads tagged `latest` expire after `latestTtl`. Recent entries expire after
+ * `recentTtl` and are dropped when a reorg is seen: a different hash for a known
+ * height, a block whose parent hash doesn't match, or the head moving back.
+ *
+ * @example
+ * ```typescript
+ * const client = new NanoPy(NETWORKS.mainnet, {
+ *   cache: {
+ *     latestTtl: 1000,
+ *     onHit: (method) => metrics.increment('rpc.cache.hit', { method }),
+ *     onMiss: (method) => metrics.increment('rpc.cache.miss', { method })
+ *   }
+ * });
+ * ```
+ */
+export class RPCCache {
+  readonly store: CacheStore;
+  private latestTtl: number;
+  private reorgDepth: number;
+  private recentTtl: number;
+  private onHit?: (method: string, params: any[]) => void;
+  private onMiss?: (method: string, params: any[]) => void;
+  // Highest block number seen in any result
+  private head: number = -1;
+  private blockHashes: Map<number, string> = new Map();
+  // Keys of entries that a reorg could invalidate, with their block
+  private recent: Map<string, number> = new Map();
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store || new LRUCache(options.maxEntries);
+    this.latestTtl = options.latestTtl ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 12;
+    this.recentTtl = options.recentTtl ?? 30000;
+    this.onHit = options.onHit;
+    this.onMiss = options.onMiss;
+  }
+
+  /**
+   * Return cached result or fetch and cache it according to the method's policy
+   */
+  async wrap<T>(method: string, params: any[], fetch: () => Promise<T>): Promise<T> {
+    const cacheable = this.isCacheable(method, params);
+    const key = `${method}:${JSON.stringify(params)}`;
+
+    if (cacheable) {
+      const entry = await this.store.get(key);
+      if (entry && (entry.expires === null || entry.expires > Date.now())) {
+        this.onHit?.(method, params);
+        return entry.value as T;
+      }
+      if (entry) {
+        await this.store.delete(key);
+      }
+      this.onMiss?.(method, params);
+    }
+
+    const result = await fetch();
+    await this.observe(method, result);
+
+    if (cacheable) {
+      const policy = this.policy(method, params, result);
+      if (policy) {
+        await this.store.set(key, {
+          value: result,
+          expires: policy.ttl === null ? null : Date.now() + policy.ttl
+        });
+        if (policy.block !== undefined) {
+          this.recent.set(key, policy.block);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop entries for blocks at or above `blockNumber` (after a reorg)
+   */
+  async invalidateFrom(blockNumber: number): Promise<void> {
+    for (const [key, block] of this.recent) {
+      if (block >= blockNumber) {
+        await this.store.delete(key);
+        this.recent.delete(key);
+      }
+    }
+    for (const number of this.blockHashes.keys()) {
+      if (number >= blockNumber) this.blockHashes.delete(number);
+    }
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+    this.recent.clear();
+    this.blockHashes.clear();
+  }
+
+  private isCacheable(method: string, params: any[]): boolean {
+    if (STATIC_METHODS.includes(method) || BLOCK_SCOPED_METHODS.includes(method)) {
+      return true;
+    }
+    if (method === 'eth_getBlockByHash') {
+      return true;
+    }
+    if (method in BLOCK_TAG_PARAM) {
+      const tag = params[BLOCK_TAG_PARAM[method]] ?? 'latest';
+      return tag !== 'pending';
+    }
+    return false;
+  }
+
+  private policy(method: string, params: any[], result: any): CachePolicy | null {
+    if (result === null || result === undefined) {
+      // Not mined / not found yet
+      return null;
+    }
+
+    if (STATIC_METHODS.includes(method) || method === 'eth_getBlockByHash') {
+      return { ttl: null };
+    }
+
+    if (BLOCK_SCOPED_METHODS.includes(method)) {
+      const block = toNumber(result.blockNumber);
+      return block === null ? null : this.blockPolicy(block);
+    }
+
+    const tag = params[BLOCK_TAG_PARAM[method]] ?? 'latest';
+    if (MOVING_TAGS.includes(tag)) {
+      return { ttl: this.latestTtl };
+    }
+    const block = toNumber(tag);
+    return block === null ? null : this.blockPolicy(block);
+  }
+
+  /**
+   * Immutable once deeper than reorg depth; until then short-lived and tracked for reorg invalidation
+   */
+  private blockPolicy(block: number): CachePolicy {
+    if (this.head >= 0 && this.head - block >= this.reorgDepth) {
+      return { ttl: null };
+    }
+    return { ttl: this.recentTtl, block };
+  }
+
+  /**
+   * Track chain head and detect reorgs from block hashes
+   */
+  private async observe(method: string, result: any): Promise<void> {
+    if (method === 'eth_blockNumber') {
+      const number = toNumber(result);
+      if (number !== null) {
+        if (number < this.head) {
+          // Head went back: chain was reorganized, the new head block may differ too
+          await this.invalidateFrom(number);
+        }
+        this.head = number;
+      }
+      return;
+    }
+
+    if (!result || typeof result !== 'object') return;
+
+    const number = toNumber(result.blockNumber ?? result.number);
+    if (number === null) return;
+    this.head = Math.max(this.head, number);
+
+    if ((method === 'eth_getBlockByNumber' || method === 'eth_getBlockByHash') && result.hash) {
+      const known = this.blockHashes.get(number);
+      const parent = this.blockHashes.get(number - 1);
+      if (parent && result.parentHash && parent !== result.parentHash) {
+        // Block builds on a different parent: fork point is below this height
+        await this.invalidateFrom(number - 1);
+        this.blockHashes.set(number - 1, result.parentHash);
+      } else if (known && known !== result.hash) {
+        await this.invalidateFrom(number);
+      }
+      this.blockHashes.set(number, result.hash);
+    }
+
+    // Forget tracking for entries that are now final
+    for (const [key, block] of this.recent) {
+      if (this.head - block >= this.reorgDepth) this.recent.delete(key);
+    }
+    for (const height of this.blockHashes.keys()) {
+      if (this.head - height >= this.reorgDepth) this.blockHashes.delete(height);
+    }
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value, 16);
+  return null;
+}
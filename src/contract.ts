@@ -4,9 +4,21 @@
  */
 
 import { keccak256 } from 'js-sha3';
-import { ABI, ABIFunction, ABIParameter, CallOptions, TransactionReceipt, Log } from './types';
-import { Wallet } from './wallet';
-import { hexToBytes, bytesToHex, numberToHex, hexToNumber } from './utils';
+import { ABI, ABIFunction, ABIInput, ABIParameter, CallOptions, TransactionReceipt, Log, Signer } from './types';
+import { TransactionResponse } from './response';
+import { toRevertError } from './revert';
+import {
+  encodeParameters,
+  decodeParameters,
+  encodeParameter,
+  decodeParameter,
+  formatType,
+  isDynamicType,
+  parseAbi,
+  parseAbiItem,
+  formatAbiItem
+} from './abi';
+import { hexToBytes, numberToHex, hexToNumber } from './utils';
 
 export class Contract {
   readonly address: string;
@@ -15,62 +27,148 @@ export class Contract {
   readonly methods: Record<string, ContractMethod> = {};
   readonly events: Record<string, EventDecoder> = {};
 
-  constructor(address: string, abi: ABI, client: any) {
+  /**
+   * @param abi - JSON ABI or human-readable signatures
+   *   (e.g. 'function transfer(address to, uint256 amount) returns (bool)')
+   */
+  constructor(address: string, abi: ABIInput, client: any) {
     this.address = address;
-    this.abi = abi;
+    this.abi = parseAbi(abi);
     this.client = client;
 
-    // Build methods from ABI
-    for (const item of abi) {
+    // Build methods from ABI, keyed by signature and by name
+    // (overloaded names resolve on the arguments of each call)
+    for (const item of this.abi) {
       if (item.type === 'function' && item.name) {
-        this.methods[item.name] = new ContractMethod(this, item);
+        const signature = formatAbiItem(item, 'sighash');
+        this.methods[signature] = new ContractMethod(this, signature);
+        this.methods[item.name] = new ContractMethod(this, item.name);
       }
       if (item.type === 'event' && item.name) {
-        this.events[item.name] = new EventDecoder(item);
+        const decoder = new EventDecoder(item);
+        this.events[formatAbiItem(item, 'sighash')] = decoder;
+        // Overloaded events are only available by signature
+        const overloaded = this.abi.filter(i => i.type === 'event' && i.name === item.name).length > 1;
+        if (!overloaded) {
+          this.events[item.name] = decoder;
+        }
       }
     }
   }
 
   /**
-   * Call view/pure function
+   * Find function by name or signature
+   * Overloads are resolved by argument count, then by argument types.
+   * @param method - Name ('safeTransferFrom') or signature ('safeTransferFrom(address,address,uint256,bytes)')
+   * @param args - Call arguments (used to pick an overload)
+   * @throws If not found or the call matches several overloads
    */
-  async call(method: string, args: any[] = [], options: CallOptions = {}): Promise<any> {
-    const abiItem = this.abi.find(
-      i => i.type === 'function' && i.name === method
-    ) as ABIFunction;
+  getFunction(method: string, args?: any[]): ABIFunction {
+    return this.resolve('function', method, args);
+  }
 
-    if (!abiItem) {
-      throw new Error(`Method ${method} not found in ABI`);
+  /**
+   * Find event by name or signature
+   * @throws If not found or the name is overloaded
+   */
+  getEvent(event: string): ABIFunction {
+    return this.resolve('event', event);
+  }
+
+  private resolve(type: 'function' | 'event', key: string, args?: any[]): ABIFunction {
+    const label = type === 'function' ? 'Method' : 'Event';
+    const items = this.abi.filter(i => i.type === type);
+
+    if (key.includes('(')) {
+      const signature = formatAbiItem(parseAbiItem(key), 'sighash');
+      const item = items.find(i => formatAbiItem(i, 'sighash') === signature);
+      if (!item) {
+        throw new Error(`${label} ${signature} not found in ABI`);
+      }
+      return item;
     }
 
+    let candidates = items.filter(i => i.name === key);
+    if (candidates.length === 0) {
+      throw new Error(`${label} ${key} not found in ABI`);
+    }
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+
+    if (args) {
+      candidates = candidates.filter(i => (i.inputs || []).length === args.length);
+      if (candidates.length > 1) {
+        const typed = candidates.filter(i => (i.inputs || []).every((input, n) => matchesType(input, args[n])));
+        if (typed.length > 0) {
+          candidates = typed;
+        }
+      }
+      if (candidates.length === 1) {
+        return candidates[0];
+      }
+    }
+
+    const signatures = (candidates.length > 0 ? candidates : items.filter(i => i.name === key))
+      .map(i => formatAbiItem(i, 'sighash'));
+    const reason = !args
+      ? `${label} ${key} is overloaded`
+      : candidates.length === 0
+        ? `No overload of ${key} takes ${args.length} arguments`
+        : `Ambiguous call to ${key} with ${args.length} arguments`;
+    throw new Error(`${reason}; use one of: ${signatures.join(', ')}`);
+  }
+
+  /**
+   * Call view/pure function
+   * @throws CallRevertedError with decoded reason (Error, Panic or custom error from ABI)
+   */
+  async call(method: string, args: any[] = [], options: CallOptions = {}): Promise<any> {
+    const abiItem = this.getFunction(method, args);
+
     const data = this.encodeCall(abiItem, args);
 
-    const result = await this.client.rpc.ethCall({
-      to: this.address,
-      data,
-      from: options.from,
-      value: options.value ? numberToHex(BigInt(options.value)) : undefined
-    });
+    let result: string;
+    try {
+      result = await this.client.rpc.ethCall({
+        to: this.address,
+        data,
+        from: options.from,
+        value: options.value ? numberToHex(BigInt(options.value)) : undefined
+      });
+    } catch (error) {
+      throw toRevertError(error, this.abi);
+    }
 
     return this.decodeResult(abiItem, result);
   }
 
   /**
-   * Send transaction to contract
+   * Send transaction to contract and wait for the receipt
+   * @throws CallRevertedError if the transaction would revert
+   * @throws TransactionRevertedError with the receipt if it failed when mined
+   *   (reason recovered by replaying it at its block)
    */
   async send(
-    wallet: Wallet,
+    signer: Signer,
     method: string,
     args: any[] = [],
     options: CallOptions = {}
   ): Promise<TransactionReceipt> {
-    const abiItem = this.abi.find(
-      i => i.type === 'function' && i.name === method
-    ) as ABIFunction;
+    const response = await this.submit(signer, method, args, options);
+    return this.client.confirmTransaction(response, this.abi);
+  }
 
-    if (!abiItem) {
-      throw new Error(`Method ${method} not found in ABI`);
-    }
+  /**
+   * Send transaction to contract without waiting for it to be mined
+   */
+  async submit(
+    signer: Signer,
+    method: string,
+    args: any[] = [],
+    options: CallOptions = {}
+  ): Promise<TransactionResponse> {
+    const abiItem = this.getFunction(method, args);
 
     const data = this.encodeCall(abiItem, args);
 
@@ -78,39 +176,45 @@ export class Contract {
       to: this.address,
       data,
       value: options.value ? numberToHex(BigInt(options.value)) : '0x0',
-      gasLimit: options.gasLimit || '0x100000',
-      gasPrice: options.gasPrice
+      gasLimit: options.gasLimit,
+      gasPrice: options.gasPrice,
+      maxFeePerGas: options.maxFeePerGas,
+      maxPriorityFeePerGas: options.maxPriorityFeePerGas
     };
 
-    return this.client.sendTransaction(wallet, tx);
+    try {
+      return await this.client.submitTransaction(signer, tx);
+    } catch (error) {
+      throw toRevertError(error, this.abi);
+    }
   }
 
   /**
    * Estimate gas for method call
    */
   async estimateGas(method: string, args: any[] = [], options: CallOptions = {}): Promise<number> {
-    const abiItem = this.abi.find(
-      i => i.type === 'function' && i.name === method
-    ) as ABIFunction;
-
-    if (!abiItem) {
-      throw new Error(`Method ${method} not found in ABI`);
-    }
+    const abiItem = this.getFunction(method, args);
 
     const data = this.encodeCall(abiItem, args);
 
-    const gasHex = await this.client.rpc.estimateGas({
-      to: this.address,
-      data,
-      from: options.from,
-      value: options.value ? numberToHex(BigInt(options.value)) : undefined
-    });
+    let gasHex: string;
+    try {
+      gasHex = await this.client.rpc.estimateGas({
+        to: this.address,
+        data,
+        from: options.from,
+        value: options.value ? numberToHex(BigInt(options.value)) : undefined
+      });
+    } catch (error) {
+      throw toRevertError(error, this.abi);
+    }
 
     return hexToNumber(gasHex);
   }
 
   /**
    * Get past events
+   * @param eventName - Event name, or signature for overloaded events
    */
   async getPastEvents(
     eventName: string,
@@ -120,15 +224,8 @@ export class Contract {
       filter?: Record<string, any>;
     } = {}
   ): Promise<DecodedLog[]> {
-    const eventAbi = this.abi.find(
-      i => i.type === 'event' && i.name === eventName
-    ) as ABIFunction;
-
-    if (!eventAbi) {
-      throw new Error(`Event ${eventName} not found in ABI`);
-    }
-
-    const decoder = this.events[eventName];
+    const eventAbi = this.getEvent(eventName);
+    const decoder = this.events[formatAbiItem(eventAbi, 'sighash')];
     const topics: (string | null)[] = [decoder.topic];
 
     // Add indexed parameter filters
@@ -136,7 +233,7 @@ export class Contract {
       const indexedInputs = eventAbi.inputs.filter(i => i.indexed);
       for (const input of indexedInputs) {
         if (options.filter[input.name] !== undefined) {
-          topics.push(this.encodeParameter(input.type, options.filter[input.name]));
+          topics.push(Contract.encodeTopic(input, options.filter[input.name]));
         } else {
           topics.push(null);
         }
@@ -166,7 +263,7 @@ export class Contract {
    * Get function selector (4 bytes)
    */
   functionSelector(abiItem: ABIFunction): string {
-    const signature = `${abiItem.name}(${(abiItem.inputs || []).map(i => i.type).join(',')})`;
+    const signature = `${abiItem.name}(${(abiItem.inputs || []).map(formatType).join(',')})`;
     return '0x' + keccak256(signature).slice(0, 8);
   }
 
@@ -189,193 +286,99 @@ export class Contract {
 
   /**
    * Static method to encode constructor/function arguments
+   * @returns Encoded arguments without 0x prefix
    */
   static encodeArguments(inputs: ABIParameter[], args: any[]): string {
-    let result = '';
-
-    for (let i = 0; i < inputs.length; i++) {
-      const input = inputs[i];
-      const arg = args[i];
-      result += Contract.encodeParameter(input.type, arg).slice(2);
-    }
-
-    return result;
+    return encodeParameters(inputs, args).slice(2);
   }
 
   /**
    * Static method to decode arguments from data
    */
   static decodeArguments(outputs: ABIParameter[], data: string): any[] {
-    const cleanData = data.startsWith('0x') ? data.slice(2) : data;
-    const results: any[] = [];
-    let offset = 0;
-
-    for (const output of outputs) {
-      const [value, newOffset] = Contract.decodeParameter(output.type, cleanData, offset);
-      results.push(value);
-      offset = newOffset;
-    }
-
-    return results;
+    return decodeParameters(outputs, data);
   }
 
   /**
    * Encode single parameter
    */
-  private encodeParameter(type: string, value: any): string {
-    return Contract.encodeParameter(type, value);
+  static encodeParameter(type: string | ABIParameter, value: any): string {
+    return encodeParameter(type, value);
   }
 
-  static encodeParameter(type: string, value: any): string {
-    // Address
-    if (type === 'address') {
-      const addr = value.toLowerCase().replace('0x', '');
-      return '0x' + addr.padStart(64, '0');
-    }
-
-    // Uint types
-    if (type.startsWith('uint')) {
-      const num = BigInt(value);
-      return '0x' + num.toString(16).padStart(64, '0');
-    }
-
-    // Int types
-    if (type.startsWith('int')) {
-      let num = BigInt(value);
-      if (num < 0) {
-        num = (1n << 256n) + num;
-      }
-      return '0x' + num.toString(16).padStart(64, '0');
-    }
-
-    // Bool
-    if (type === 'bool') {
-      return '0x' + (value ? '1' : '0').padStart(64, '0');
-    }
-
-    // Bytes32
-    if (type === 'bytes32') {
-      const hex = value.startsWith('0x') ? value.slice(2) : value;
-      return '0x' + hex.padEnd(64, '0');
-    }
-
-    // String
-    if (type === 'string') {
-      const bytes = new TextEncoder().encode(value);
-      const length = bytes.length;
-      const lengthHex = length.toString(16).padStart(64, '0');
-      let dataHex = bytesToHex(bytes).slice(2);
-      // Pad to 32-byte boundary
-      while (dataHex.length % 64 !== 0) {
-        dataHex += '0';
-      }
-      // For dynamic types, first word is offset, then length, then data
-      return '0x' + lengthHex + dataHex;
-    }
-
-    // Bytes (dynamic)
-    if (type === 'bytes') {
-      const hex = value.startsWith('0x') ? value.slice(2) : value;
-      const length = hex.length / 2;
-      const lengthHex = length.toString(16).padStart(64, '0');
-      let dataHex = hex;
-      while (dataHex.length % 64 !== 0) {
-        dataHex += '0';
-      }
-      return '0x' + lengthHex + dataHex;
-    }
-
-    throw new Error(`Unsupported type: ${type}`);
+  /**
+   * Decode single parameter at offset (hex chars)
+   * @returns Value and offset of the next parameter
+   */
+  static decodeParameter(type: string | ABIParameter, data: string, offset: number = 0): [any, number] {
+    return decodeParameter(type, data, offset);
   }
 
   /**
-   * Decode single parameter
+   * Encode indexed event parameter as topic.
+   * Dynamic values (string, bytes) are stored as their keccak256 hash.
    */
-  static decodeParameter(type: string, data: string, offset: number = 0): [any, number] {
-    const chunk = data.slice(offset, offset + 64);
-
-    // Address
-    if (type === 'address') {
-      return ['0x' + chunk.slice(24), offset + 64];
+  static encodeTopic(param: ABIParameter, value: any): string {
+    if (param.type === 'string') {
+      return '0x' + keccak256(new TextEncoder().encode(value));
     }
-
-    // Uint types
-    if (type.startsWith('uint')) {
-      return [BigInt('0x' + chunk), offset + 64];
+    if (param.type === 'bytes') {
+      return '0x' + keccak256(typeof value === 'string' ? hexToBytes(value) : value);
     }
-
-    // Int types
-    if (type.startsWith('int')) {
-      let num = BigInt('0x' + chunk);
-      const bits = parseInt(type.replace('int', '') || '256');
-      const max = 1n << BigInt(bits - 1);
-      if (num >= max) {
-        num = num - (1n << BigInt(bits));
-      }
-      return [num, offset + 64];
-    }
-
-    // Bool
-    if (type === 'bool') {
-      return [chunk.slice(-1) === '1', offset + 64];
-    }
-
-    // Bytes32
-    if (type === 'bytes32') {
-      return ['0x' + chunk, offset + 64];
+    if (isDynamicType(param) || param.components || param.type.endsWith(']')) {
+      throw new Error(`Filtering by indexed ${param.type} is not supported`);
     }
-
-    // String (dynamic)
-    if (type === 'string') {
-      const dataOffset = parseInt(chunk, 16) * 2;
-      const length = parseInt(data.slice(dataOffset, dataOffset + 64), 16);
-      const strData = data.slice(dataOffset + 64, dataOffset + 64 + length * 2);
-      const bytes = hexToBytes(strData);
-      return [new TextDecoder().decode(bytes), offset + 64];
-    }
-
-    throw new Error(`Unsupported type: ${type}`);
+    return encodeParameter(param, value);
   }
 }
 
 /**
  * Contract method wrapper for fluent API
+ * Created per name and per signature; a name shared by overloads
+ * picks the overload from the arguments of each call.
  */
 export class ContractMethod {
   private contract: Contract;
-  private abiItem: ABIFunction;
+  private method: string;
 
-  constructor(contract: Contract, abiItem: ABIFunction) {
+  constructor(contract: Contract, method: string) {
     this.contract = contract;
-    this.abiItem = abiItem;
+    this.method = method;
   }
 
   /**
    * Encode function call
    */
   encodeABI(...args: any[]): string {
-    return this.contract.encodeCall(this.abiItem, args);
+    return this.contract.encodeCall(this.contract.getFunction(this.method, args), args);
   }
 
   /**
    * Call view/pure function
    */
   async call(...args: any[]): Promise<any> {
-    return this.contract.call(this.abiItem.name!, args);
+    return this.contract.call(this.method, args);
   }
 
   /**
    * Send transaction
    */
-  async send(wallet: Wallet, options: CallOptions = {}, ...args: any[]): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, this.abiItem.name!, args, options);
+  async send(signer: Signer, options: CallOptions = {}, ...args: any[]): Promise<TransactionReceipt> {
+    return this.contract.send(signer, this.method, args, options);
+  }
+
+  /**
+   * Send transaction without waiting for it to be mined
+   */
+  async submit(signer: Signer, options: CallOptions = {}, ...args: any[]): Promise<TransactionResponse> {
+    return this.contract.submit(signer, this.method, args, options);
   }
 
   /**
    * Estimate gas
    */
   async estimateGas(...args: any[]): Promise<number> {
-    return this.contract.estimateGas(this.abiItem.name!, args);
+    return this.contract.estimateGas(this.method, args);
   }
 }
 
@@ -390,7 +393,7 @@ export class EventDecoder {
   constructor(abiItem: ABIFunction) {
     this.name = abiItem.name!;
     this.inputs = abiItem.inputs || [];
-    const signature = `${this.name}(${this.inputs.map(i => i.type).join(',')})`;
+    const signature = `${this.name}(${this.inputs.map(formatType).join(',')})`;
     this.topic = '0x' + keccak256(signature);
   }
 
@@ -407,8 +410,11 @@ export class EventDecoder {
     let topicIndex = 1;
     for (const input of indexedInputs) {
       if (topicIndex < log.topics.length) {
-        const [value] = Contract.decodeParameter(input.type, log.topics[topicIndex].slice(2));
-        args[input.name] = value;
+        const topic = log.topics[topicIndex];
+        // Dynamic, array and tuple values are only available as their hash
+        args[input.name] = isDynamicType(input) || input.components || input.type.endsWith(']')
+          ? topic
+          : decodeParameter(input, topic)[0];
         topicIndex++;
       }
     }
@@ -432,3 +438,34 @@ export interface DecodedLog {
   args: Record<string, any>;
   log: Log;
 }
+
+/**
+ * Check if value can be encoded as parameter type (for overload resolution)
+ */
+function matchesType(param: ABIParameter, value: any): boolean {
+  const arrayMatch = /\[(\d*)\]$/.exec(param.type);
+  if (arrayMatch) {
+    return Array.isArray(value) && (arrayMatch[1] === '' || value.length === parseInt(arrayMatch[1], 10));
+  }
+  if (param.components) {
+    return typeof value === 'object' && value !== null;
+  }
+  if (param.type === 'address') {
+    return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+  }
+  if (param.type === 'bool') {
+    return typeof value === 'boolean';
+  }
+  if (param.type === 'string') {
+    return typeof value === 'string';
+  }
+  if (/^bytes\d*$/.test(param.type)) {
+    return value instanceof Uint8Array || (typeof value === 'string' && /^0x([0-9a-fA-F]{2})*$/.test(value));
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return typeof value === 'bigint'
+      || typeof value === 'number'
+      || (typeof value === 'string' && /^-?(0x[0-9a-fA-F]+|\d+)$/.test(value));
+  }
+  return true;
+}
@@ -0,0 +1,271 @@
+/**
+ * NanoPy SDK EIP-712
+ * Typed structured data hashing (eth_signTypedData_v4 compatible)
+ */
+
+import { TypedDataDomain, TypedDataField, TypedDataTypes, TypedDataPayload } from './types';
+import { bytesToHex, hexToBytes, keccak } from './utils';
+
+// Domain fields in the order defined by EIP-712
+const DOMAIN_FIELDS: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' }
+];
+
+/**
+ * Get EIP712Domain type fields for domain (only fields present are included)
+ * @param domain - Domain separator values
+ */
+export function getDomainType(domain: TypedDataDomain): TypedDataField[] {
+  return DOMAIN_FIELDS.filter(field => (domain as any)[field.name] !== undefined && (domain as any)[field.name] !== null);
+}
+
+/**
+ * Find primary type (the one type not referenced by any other)
+ * @param types - Type definitions (EIP712Domain is ignored)
+ */
+export function getPrimaryType(types: TypedDataTypes): string {
+  const names = Object.keys(types).filter(t => t !== 'EIP712Domain');
+  const referenced = new Set<string>();
+
+  for (const name of names) {
+    for (const field of types[name]) {
+      referenced.add(baseType(field.type));
+    }
+  }
+
+  const candidates = names.filter(name => !referenced.has(name));
+  if (candidates.length !== 1) {
+    throw new Error(
+      candidates.length === 0
+        ? 'No primary type found (circular type references)'
+        : `Ambiguous primary type, specify one of: ${candidates.join(', ')}`
+    );
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Encode type string including referenced struct types
+ * @example encodeType('Mail', types) // "Mail(Person from,Person to,string contents)Person(string name,address wallet)"
+ */
+export function encodeType(primaryType: string, types: TypedDataTypes): string {
+  const deps = findDependencies(primaryType, types);
+  deps.delete(primaryType);
+  const sorted = [primaryType, ...Array.from(deps).sort()];
+
+  return sorted
+    .map(name => `${name}(${types[name].map(f => `${f.type} ${f.name}`).join(',')})`)
+    .join('');
+}
+
+/**
+ * Hash of encoded type
+ */
+export function typeHash(primaryType: string, types: TypedDataTypes): string {
+  return keccak(new TextEncoder().encode(encodeType(primaryType, types)));
+}
+
+/**
+ * Encode struct data (typeHash followed by encoded fields)
+ */
+export function encodeData(primaryType: string, data: Record<string, any>, types: TypedDataTypes): string {
+  const fields = types[primaryType];
+  if (!fields) {
+    throw new Error(`Unknown type: ${primaryType}`);
+  }
+
+  let encoded = typeHash(primaryType, types).slice(2);
+  for (const field of fields) {
+    const value = data[field.name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing value for field ${primaryType}.${field.name}`);
+    }
+    encoded += encodeValue(field.type, value, types).slice(2);
+  }
+
+  return '0x' + encoded;
+}
+
+/**
+ * Hash struct (keccak256 of encodeData)
+ */
+export function hashStruct(primaryType: string, data: Record<string, any>, types: TypedDataTypes): string {
+  return keccak(encodeData(primaryType, data, types));
+}
+
+/**
+ * Hash domain separator
+ */
+export function hashDomain(domain: TypedDataDomain): string {
+  return hashStruct('EIP712Domain', domain as Record<string, any>, { EIP712Domain: getDomainType(domain) });
+}
+
+/**
+ * Compute final EIP-712 digest: keccak256("\x19\x01" || domainSeparator || hashStruct(message))
+ * @param domain - Domain separator values
+ * @param types - Type definitions
+ * @param value - Message to hash
+ * @param primaryType - Primary type (inferred when omitted)
+ */
+export function hashTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>,
+  primaryType?: string
+): string {
+  const messageTypes = withoutDomain(types);
+  const primary = primaryType || getPrimaryType(messageTypes);
+
+  const digest = new Uint8Array(66);
+  digest.set([0x19, 0x01]);
+  digest.set(hexToBytes(hashDomain(domain)), 2);
+  digest.set(hexToBytes(hashStruct(primary, value, messageTypes)), 34);
+
+  return keccak(digest);
+}
+
+/**
+ * Build full payload for eth_signTypedData_v4
+ */
+export function buildTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>,
+  primaryType?: string
+): TypedDataPayload {
+  const messageTypes = withoutDomain(types);
+
+  return {
+    types: { EIP712Domain: getDomainType(domain), ...messageTypes },
+    domain: {
+      ...domain,
+      chainId: domain.chainId !== undefined ? Number(domain.chainId) : undefined
+    },
+    primaryType: primaryType || getPrimaryType(messageTypes),
+    message: toJsonValue(value)
+  };
+}
+
+function encodeValue(type: string, value: any, types: TypedDataTypes): string {
+  // Struct
+  if (types[type]) {
+    return hashStruct(type, value, types);
+  }
+
+  // Arrays: T[] or T[n]
+  const arrayMatch = /^(.*)\[(\d*)\]$/.exec(type);
+  if (arrayMatch) {
+    const [, itemType, length] = arrayMatch;
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for type ${type}`);
+    }
+    if (length && value.length !== parseInt(length, 10)) {
+      throw new Error(`Expected ${length} items for type ${type}, got ${value.length}`);
+    }
+    const encoded = value.map(item => encodeValue(itemType, item, types).slice(2)).join('');
+    return keccak('0x' + encoded);
+  }
+
+  // Dynamic types are hashed
+  if (type === 'string') {
+    return keccak(new TextEncoder().encode(value));
+  }
+  if (type === 'bytes') {
+    return keccak(toBytes(value));
+  }
+
+  return encodeAtomic(type, value);
+}
+
+function encodeAtomic(type: string, value: any): string {
+  if (type === 'address') {
+    const hex = String(value).toLowerCase().replace(/^0x/, '');
+    if (!/^[0-9a-f]{40}$/.test(hex)) {
+      throw new Error(`Invalid address: ${value}`);
+    }
+    return '0x' + hex.padStart(64, '0');
+  }
+
+  if (type === 'bool') {
+    const bool = typeof value === 'string' ? value === 'true' : !!value;
+    return '0x' + (bool ? '1' : '0').padStart(64, '0');
+  }
+
+  const bytesMatch = /^bytes(\d+)$/.exec(type);
+  if (bytesMatch) {
+    const size = parseInt(bytesMatch[1], 10);
+    const bytes = toBytes(value);
+    if (size < 1 || size > 32 || bytes.length > size) {
+      throw new Error(`Invalid ${type} value: ${bytesToHex(bytes)}`);
+    }
+    return bytesToHex(bytes).padEnd(66, '0');
+  }
+
+  const intMatch = /^(u?)int(\d*)$/.exec(type);
+  if (intMatch) {
+    const signed = intMatch[1] === '';
+    const bits = parseInt(intMatch[2] || '256', 10);
+    let num = BigInt(value);
+
+    if (signed) {
+      const limit = 1n << BigInt(bits - 1);
+      if (num < -limit || num >= limit) {
+        throw new Error(`Value ${num} out of range for ${type}`);
+      }
+      if (num < 0n) num += 1n << 256n;
+    } else if (num < 0n || num >= 1n << BigInt(bits)) {
+      throw new Error(`Value ${num} out of range for ${type}`);
+    }
+
+    return '0x' + num.toString(16).padStart(64, '0');
+  }
+
+  throw new Error(`Unsupported EIP-712 type: ${type}`);
+}
+
+function findDependencies(type: string, types: TypedDataTypes, found: Set<string> = new Set()): Set<string> {
+  const base = baseType(type);
+  if (found.has(base) || !types[base]) {
+    return found;
+  }
+
+  found.add(base);
+  for (const field of types[base]) {
+    findDependencies(field.type, types, found);
+  }
+
+  return found;
+}
+
+function baseType(type: string): string {
+  return type.replace(/(\[\d*\])+$/, '');
+}
+
+function withoutDomain(types: TypedDataTypes): TypedDataTypes {
+  const { EIP712Domain, ...rest } = types;
+  return rest;
+}
+
+function toBytes(value: string | Uint8Array): Uint8Array {
+  if (typeof value !== 'string') return value;
+  return hexToBytes(value);
+}
+
+function toJsonValue(value: any): any {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return bytesToHex(value);
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      result[key] = toJsonValue(value[key]);
+    }
+    return result;
+  }
+  return value;
+}
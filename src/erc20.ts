@@ -4,8 +4,7 @@
  */
 
 import { Contract } from './contract';
-import { Wallet } from './wallet';
-import { TransactionReceipt, Log } from './types';
+import { TransactionReceipt, Log, Signer } from './types';
 import { toWei, fromWei, formatBalance } from './utils';
 
 // Standard ERC20 ABI
@@ -153,37 +152,37 @@ export class ERC20 {
 
   /**
    * Transfer tokens
-   * @param wallet - Sender wallet
+   * @param signer - Sender (Wallet, BrowserProvider or any Signer)
    * @param to - Recipient address
    * @param amount - Amount (in token units, e.g., "100" for 100 tokens)
    */
-  async transfer(wallet: Wallet, to: string, amount: string | bigint): Promise<TransactionReceipt> {
+  async transfer(signer: Signer, to: string, amount: string | bigint): Promise<TransactionReceipt> {
     const decimals = await this.decimals();
     const amountWei = this.parseAmount(amount, decimals);
-    return this.contract.send(wallet, 'transfer', [to, amountWei]);
+    return this.contract.send(signer, 'transfer', [to, amountWei]);
   }
 
   /**
    * Approve spender
-   * @param wallet - Owner wallet
+   * @param signer - Owner (Wallet, BrowserProvider or any Signer)
    * @param spender - Spender address
    * @param amount - Amount to approve (use "max" for unlimited)
    */
-  async approve(wallet: Wallet, spender: string, amount: string | bigint): Promise<TransactionReceipt> {
+  async approve(signer: Signer, spender: string, amount: string | bigint): Promise<TransactionReceipt> {
     const decimals = await this.decimals();
     const amountWei = amount === 'max'
       ? BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')
       : this.parseAmount(amount, decimals);
-    return this.contract.send(wallet, 'approve', [spender, amountWei]);
+    return this.contract.send(signer, 'approve', [spender, amountWei]);
   }
 
   /**
    * Transfer from (requires allowance)
    */
-  async transferFrom(wallet: Wallet, from: string, to: string, amount: string | bigint): Promise<TransactionReceipt> {
+  async transferFrom(signer: Signer, from: string, to: string, amount: string | bigint): Promise<TransactionReceipt> {
     const decimals = await this.decimals();
     const amountWei = this.parseAmount(amount, decimals);
-    return this.contract.send(wallet, 'transferFrom', [from, to, amountWei]);
+    return this.contract.send(signer, 'transferFrom', [from, to, amountWei]);
   }
 
   // ============ Events ============
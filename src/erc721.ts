@@ -4,8 +4,7 @@
  */
 
 import { Contract } from './contract';
-import { Wallet } from './wallet';
-import { TransactionReceipt } from './types';
+import { TransactionReceipt, Signer } from './types';
 
 // Standard ERC721 ABI
 const ERC721_ABI = [
@@ -25,6 +24,7 @@ const ERC721_ABI = [
   { type: 'function', name: 'setApprovalForAll', inputs: [{ type: 'address', name: 'operator' }, { type: 'bool', name: 'approved' }], outputs: [], stateMutability: 'nonpayable' },
   { type: 'function', name: 'transferFrom', inputs: [{ type: 'address', name: 'from' }, { type: 'address', name: 'to' }, { type: 'uint256', name: 'tokenId' }], outputs: [], stateMutability: 'nonpayable' },
   { type: 'function', name: 'safeTransferFrom', inputs: [{ type: 'address', name: 'from' }, { type: 'address', name: 'to' }, { type: 'uint256', name: 'tokenId' }], outputs: [], stateMutability: 'nonpayable' },
+  { type: 'function', name: 'safeTransferFrom', inputs: [{ type: 'address', name: 'from' }, { type: 'address', name: 'to' }, { type: 'uint256', name: 'tokenId' }, { type: 'bytes', name: 'data' }], outputs: [], stateMutability: 'nonpayable' },
   // Enumerable (optional)
   { type: 'function', name: 'tokenOfOwnerByIndex', inputs: [{ type: 'address', name: 'owner' }, { type: 'uint256', name: 'index' }], outputs: [{ type: 'uint256', name: '' }], stateMutability: 'view' },
   { type: 'function', name: 'tokenByIndex', inputs: [{ type: 'uint256', name: 'index' }], outputs: [{ type: 'uint256', name: '' }], stateMutability: 'view' },
@@ -237,15 +237,15 @@ export class ERC721 {
   /**
    * Approve address for token
    */
-  async approve(wallet: Wallet, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'approve', [to, BigInt(tokenId)]);
+  async approve(signer: Signer, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'approve', [to, BigInt(tokenId)]);
   }
 
   /**
    * Set approval for all tokens
    */
-  async setApprovalForAll(wallet: Wallet, operator: string, approved: boolean): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'setApprovalForAll', [operator, approved]);
+  async setApprovalForAll(signer: Signer, operator: string, approved: boolean): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'setApprovalForAll', [operator, approved]);
   }
 
   // ============ Transfers ============
@@ -253,22 +253,24 @@ export class ERC721 {
   /**
    * Transfer NFT
    */
-  async transfer(wallet: Wallet, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'transferFrom', [wallet.address, to, BigInt(tokenId)]);
+  async transfer(signer: Signer, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'transferFrom', [await signer.getAddress(), to, BigInt(tokenId)]);
   }
 
   /**
    * Safe transfer NFT
+   * @param data - Optional data passed to the receiver's onERC721Received
    */
-  async safeTransfer(wallet: Wallet, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'safeTransferFrom', [wallet.address, to, BigInt(tokenId)]);
+  async safeTransfer(signer: Signer, to: string, tokenId: bigint | number, data?: string): Promise<TransactionReceipt> {
+    const args = [await signer.getAddress(), to, BigInt(tokenId)];
+    return this.contract.send(signer, 'safeTransferFrom', data === undefined ? args : [...args, data]);
   }
 
   /**
    * Transfer from (requires approval)
    */
-  async transferFrom(wallet: Wallet, from: string, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'transferFrom', [from, to, BigInt(tokenId)]);
+  async transferFrom(signer: Signer, from: string, to: string, tokenId: bigint | number): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'transferFrom', [from, to, BigInt(tokenId)]);
   }
 
   // ============ Events ============
@@ -309,8 +311,13 @@ export class ERC721 {
       })
     ]);
 
-    const allEvents = [...sentEvents, ...receivedEvents];
-    allEvents.sort((a, b) => a.log.blockNumber - b.log.blockNumber);
+    // Transfers to self match both filters
+    const unique = new Map<string, typeof sentEvents[number]>();
+    for (const e of [...sentEvents, ...receivedEvents]) {
+      unique.set(`${e.log.transactionHash}:${e.log.logIndex}`, e);
+    }
+    const allEvents = [...unique.values()];
+    allEvents.sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.logIndex - b.log.logIndex);
 
     return allEvents.map(e => ({
       from: e.args.from as string,
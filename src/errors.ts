@@ -0,0 +1,281 @@
+/**
+ * NanoPy SDK Errors
+ * Typed errors with stable codes for matching without parsing messages
+ */
+
+import { RevertReason, TransactionReceipt } from './types';
+
+export type ErrorCode =
+  | 'UNKNOWN_ERROR'
+  | 'RPC_ERROR'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'INSUFFICIENT_FUNDS'
+  | 'NONCE_ERROR'
+  | 'USER_REJECTED'
+  | 'CALL_REVERTED'
+  | 'TRANSACTION_REVERTED'
+  | 'INVALID_PASSWORD'
+  | 'TRANSACTION_REPLACED'
+  | 'TRANSACTION_DROPPED'
+  | 'TRANSACTION_NOT_FOUND'
+  | 'NOT_CONNECTED'
+  | 'QUORUM_NOT_REACHED'
+  | 'REPLAY_MISMATCH';
+
+export type ReplacementReason = 'repriced' | 'cancelled' | 'replaced';
+
+/**
+ * Base class of all SDK errors
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.send(wallet, to, '100');
+ * } catch (error) {
+ *   if (error instanceof NanoPyError && error.code === 'INSUFFICIENT_FUNDS') {
+ *     showTopUpDialog();
+ *   }
+ * }
+ * ```
+ */
+export class NanoPyError extends Error {
+  readonly code: ErrorCode;
+  /** Underlying error, if any */
+  readonly cause?: unknown;
+
+  constructor(message: string, code: ErrorCode = 'UNKNOWN_ERROR', cause?: unknown) {
+    super(message);
+    this.name = 'NanoPyError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * JSON-RPC error returned by the node or wallet (keeps code and data, e.g. revert data)
+ */
+export class RpcError extends NanoPyError {
+  /** JSON-RPC error code (e.g. -32000, 3, 4001) */
+  readonly rpcCode: number;
+  readonly data?: any;
+
+  constructor(rpcCode: number, message: string, data?: any, code: ErrorCode = 'RPC_ERROR') {
+    super(`RPC Error ${rpcCode}: ${message}`, code);
+    this.name = 'RpcError';
+    this.rpcCode = rpcCode;
+    this.data = data;
+  }
+}
+
+/**
+ * Sender balance too low for value + gas
+ */
+export class InsufficientFundsError extends RpcError {
+  constructor(rpcCode: number, message: string, data?: any) {
+    super(rpcCode, message, data, 'INSUFFICIENT_FUNDS');
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * Nonce already used (nonce too low)
+ */
+export class NonceError extends RpcError {
+  constructor(rpcCode: number, message: string, data?: any) {
+    super(rpcCode, message, data, 'NONCE_ERROR');
+    this.name = 'NonceError';
+  }
+}
+
+/**
+ * User rejected the request in the wallet (EIP-1193 code 4001)
+ */
+export class UserRejectedError extends RpcError {
+  constructor(rpcCode: number, message: string, data?: any) {
+    super(rpcCode, message, data, 'USER_REJECTED');
+    this.name = 'UserRejectedError';
+  }
+}
+
+/**
+ * Request did not complete in time
+ */
+export class TimeoutError extends NanoPyError {
+  constructor(message: string) {
+    super(message, 'TIMEOUT');
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Node unreachable, connection closed or invalid response
+ */
+export class NetworkError extends NanoPyError {
+  /** HTTP status, if the node answered */
+  readonly status?: number;
+  /** Delay in ms requested by the node's Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, cause?: unknown, status?: number, retryAfter?: number) {
+    super(message, 'NETWORK_ERROR', cause);
+    this.name = 'NetworkError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when a call, gas estimation or transaction reverts
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await token.transfer(wallet, to, '1000');
+ * } catch (error) {
+ *   if (error instanceof CallRevertedError) {
+ *     console.log(error.reason?.name, error.reason?.args); // "InsufficientBalance", [10n, 1000n]
+ *   }
+ * }
+ * ```
+ */
+export class CallRevertedError extends NanoPyError {
+  /** Decoded reason (null if data is empty or the error is not in the ABI) */
+  readonly reason: RevertReason | null;
+  /** Raw revert data */
+  readonly data: string;
+  /** Receipt of the failed transaction, if it was mined */
+  readonly receipt: TransactionReceipt | null;
+
+  constructor(
+    reason: RevertReason | null,
+    data: string,
+    receipt: TransactionReceipt | null = null,
+    code: ErrorCode = 'CALL_REVERTED'
+  ) {
+    let detail = '';
+    if (reason) {
+      detail = `: ${reason.message}`;
+    } else if (data && data !== '0x') {
+      detail = ` with data ${data}`;
+    }
+    super(`Execution reverted${detail}`, code);
+    this.name = 'CallRevertedError';
+    this.reason = reason;
+    this.data = data;
+    this.receipt = receipt;
+  }
+}
+
+/**
+ * Thrown by sendTransaction and Contract.send when the transaction was mined but failed (status 0)
+ * Reason recovered by replaying the transaction at its block; null if it is not in the ABI
+ * or the replay succeeds (e.g. out of gas)
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.sendTransaction(wallet, tx);
+ * } catch (error) {
+ *   if (error instanceof TransactionRevertedError) {
+ *     console.log(error.receipt.gasUsed, error.reason?.message);
+ *   }
+ * }
+ * ```
+ */
+export class TransactionRevertedError extends CallRevertedError {
+  declare readonly receipt: TransactionReceipt;
+
+  constructor(reason: RevertReason | null, data: string, receipt: TransactionReceipt) {
+    super(reason, data, receipt, 'TRANSACTION_REVERTED');
+    this.name = 'TransactionRevertedError';
+  }
+}
+
+/**
+ * Thrown when keystore MAC check fails (wrong password or corrupted file)
+ */
+export class InvalidPasswordError extends NanoPyError {
+  constructor(message: string = 'Invalid password') {
+    super(message, 'INVALID_PASSWORD');
+    this.name = 'InvalidPasswordError';
+  }
+}
+
+/**
+ * Thrown by wait() when another transaction with the same nonce was mined instead
+ */
+export class TransactionReplacedError extends NanoPyError {
+  readonly reason: ReplacementReason;
+  readonly hash: string;
+  readonly replacement: string | null;
+  readonly receipt: TransactionReceipt | null;
+
+  constructor(
+    reason: ReplacementReason,
+    hash: string,
+    replacement: string | null,
+    receipt: TransactionReceipt | null
+  ) {
+    super(`Transaction ${hash} was ${reason}${replacement ? ` by ${replacement}` : ''}`, 'TRANSACTION_REPLACED');
+    this.name = 'TransactionReplacedError';
+    this.reason = reason;
+    this.hash = hash;
+    this.replacement = replacement;
+    this.receipt = receipt;
+  }
+}
+
+/**
+ * Request not found in a replayed fixture (or its recorded responses are used up)
+ */
+export class ReplayMismatchError extends NanoPyError {
+  readonly method: string;
+  readonly params: any[];
+
+  constructor(message: string, method: string, params: any[]) {
+    super(message, 'REPLAY_MISMATCH');
+    this.name = 'ReplayMismatchError';
+    this.method = method;
+    this.params = params;
+  }
+}
+
+/**
+ * Map JSON-RPC / EIP-1193 error onto typed error
+ * @param error - Error object from the node ({ code, message, data }) or wallet
+ *
+ * @example
+ * ```typescript
+ * if (data.error) throw createRpcError(data.error);
+ * ```
+ */
+export function createRpcError(error: { code: number; message: string; data?: any }): RpcError {
+  const message = String(error.message || '');
+  const lower = message.toLowerCase();
+
+  if (error.code === 4001 || lower.includes('user rejected') || lower.includes('user denied')) {
+    return new UserRejectedError(error.code, message, error.data);
+  }
+  if (lower.includes('insufficient funds')) {
+    return new InsufficientFundsError(error.code, message, error.data);
+  }
+  if (lower.includes('nonce too low') || lower.includes('nonce has already been used')) {
+    return new NonceError(error.code, message, error.data);
+  }
+
+  return new RpcError(error.code, message, error.data);
+}
+
+/**
+ * Convert unknown thrown value to typed error (wallet errors are plain objects with a code)
+ */
+export function toNanoPyError(error: any): any {
+  if (error instanceof NanoPyError) {
+    return error;
+  }
+  if (error && typeof error.code === 'number') {
+    return createRpcError(error);
+  }
+  return error;
+}
@@ -0,0 +1,282 @@
+/**
+ * NanoPy SDK Fallback Provider
+ * Multiple RPC endpoints with priorities, weights, health tracking and quorum reads
+ */
+
+import { keccak256 } from 'js-sha3';
+import { RPCClient, isRetryableError } from './rpc';
+import { EndpointStats, FallbackEndpoint, FallbackProviderOptions } from './types';
+import { NanoPyError } from './errors';
+import { hexToBytes } from './utils';
+
+// Deterministic reads that can be cross-checked between nodes
+const QUORUM_METHODS = [
+  'eth_chainId',
+  'net_version',
+  'eth_blockNumber',
+  'eth_getBalance',
+  'eth_getTransactionCount',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_call'
+];
+
+interface Endpoint {
+  config: Required<Pick<FallbackEndpoint, 'url' | 'priority' | 'weight'>>;
+  client: RPCClient;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  latency: number | null;
+  unhealthyUntil: number;
+  lastError: string | null;
+}
+
+/**
+ * RPC client over several nodes: fails over to the next endpoint on network
+ * errors, timeouts and 429/5xx, and can require several nodes to agree on reads.
+ * Drop-in replacement for RPCClient.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FallbackProvider([
+ *   { url: 'http://51.68.125.99:8545', priority: 0, weight: 2 },
+ *   { url: 'https://rpc2.nanopy.eu', priority: 0 },
+ *   { url: 'https://backup.example.com', priority: 1 }
+ * ], { quorum: 2 });
+ *
+ * const client = new NanoPy(NETWORKS.mainnet, { provider });
+ * ```
+ */
+export class FallbackProvider extends RPCClient {
+  readonly quorum: number;
+  private endpoints: Endpoint[];
+  private maxFailures: number;
+  private cooldown: number;
+
+  constructor(endpoints: Array<FallbackEndpoint | string>, options: FallbackProviderOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('FallbackProvider requires at least one endpoint');
+    }
+
+    const configs = endpoints.map(e => typeof e === 'string' ? { url: e } : e);
+    super(configs[0].url, { timeout: options.timeout, cache: options.cache, formatters: options.formatters });
+
+    this.endpoints = configs.map(config => ({
+      config: { url: config.url, priority: config.priority ?? 0, weight: config.weight ?? 1 },
+      // Failover replaces retries; set retry per endpoint to retry the same node first
+      client: new RPCClient(config.url, {
+        timeout: config.timeout ?? options.timeout,
+        retry: config.retry ?? { retries: 0 },
+        batch: options.batch,
+        rateLimit: config.rateLimit ?? options.rateLimit
+      }),
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      latency: null,
+      unhealthyUntil: 0,
+      lastError: null
+    }));
+
+    const totalWeight = this.endpoints.reduce((sum, e) => sum + e.config.weight, 0);
+    this.quorum = options.quorum ?? 1;
+    if (this.quorum < 1 || this.quorum > totalWeight) {
+      throw new Error(`Quorum ${this.quorum} cannot be reached with total endpoint weight ${totalWeight}`);
+    }
+    this.maxFailures = options.maxFailures ?? 3;
+    this.cooldown = options.cooldown ?? 30000;
+  }
+
+  /**
+   * Make RPC call on the best available endpoint, failing over on transient errors.
+   * With quorum > 1, deterministic reads are answered only when enough endpoints agree.
+   */
+  protected async execute<T>(method: string, params: any[]): Promise<T> {
+    if (this.quorum > 1 && QUORUM_METHODS.includes(method)) {
+      return this.quorumCall<T>(method, params);
+    }
+    // Never replay a node-signed transaction on another node
+    if (method === 'eth_sendTransaction') {
+      return this.run(this.ordered()[0], e => e.client.call<T>(method, params));
+    }
+    return this.failover(e => e.client.call<T>(method, params));
+  }
+
+  /**
+   * Batch RPC calls on the best available endpoint
+   */
+  async batch<T = any>(calls: Array<{ method: string; params?: any[] }>): Promise<T[]> {
+    return this.failover(e => e.client.batch<T>(calls));
+  }
+
+  /**
+   * Broadcast signed transaction, trying the next endpoint if one is unreachable.
+   * Safe to repeat: the same signed transaction has the same hash on every node.
+   */
+  async sendRawTransaction(signedTx: string): Promise<string> {
+    const hash = '0x' + keccak256(hexToBytes(signedTx));
+
+    return this.failover(async e => {
+      try {
+        return await e.client.sendRawTransaction(signedTx);
+      } catch (error: any) {
+        // Reached the network through an earlier endpoint
+        if (/already known|known transaction/i.test(String(error?.message))) {
+          return hash;
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Health and latency of each endpoint
+   */
+  getEndpointStats(): EndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map(e => ({
+      url: e.config.url,
+      priority: e.config.priority,
+      weight: e.config.weight,
+      healthy: e.unhealthyUntil <= now,
+      latency: e.latency,
+      requests: e.requests,
+      failures: e.failures,
+      lastError: e.lastError
+    }));
+  }
+
+  /**
+   * Endpoints in order of preference: healthy first, then by priority,
+   * weighted random among equal priority
+   */
+  private ordered(): Endpoint[] {
+    const now = Date.now();
+    return this.endpoints
+      .map(e => ({ e, key: Math.random() ** (1 / e.config.weight) }))
+      .sort((a, b) =>
+        Number(a.e.unhealthyUntil > now) - Number(b.e.unhealthyUntil > now)
+        || a.e.config.priority - b.e.config.priority
+        || b.key - a.key
+      )
+      .map(({ e }) => e);
+  }
+
+  /**
+   * Try endpoints in order until one answers. Errors returned by a node
+   * (reverts, invalid params) are final, transient errors move on.
+   */
+  private async failover<T>(fn: (endpoint: Endpoint) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const endpoint of this.ordered()) {
+      try {
+        return await this.run(endpoint, fn);
+      } catch (error) {
+        if (!isRetryableError(error)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Run request on endpoint and record health and latency
+   */
+  private async run<T>(endpoint: Endpoint, fn: (endpoint: Endpoint) => Promise<T>): Promise<T> {
+    const start = Date.now();
+    endpoint.requests++;
+
+    try {
+      const result = await fn(endpoint);
+      const elapsed = Date.now() - start;
+      endpoint.latency = endpoint.latency === null ? elapsed : Math.round(endpoint.latency * 0.8 + elapsed * 0.2);
+      endpoint.consecutiveFailures = 0;
+      endpoint.unhealthyUntil = 0;
+      return result;
+    } catch (error: any) {
+      // Node answered: the endpoint itself is fine
+      if (!isRetryableError(error)) {
+        endpoint.consecutiveFailures = 0;
+        throw error;
+      }
+      endpoint.failures++;
+      endpoint.consecutiveFailures++;
+      endpoint.lastError = String(error?.message || error);
+      if (endpoint.consecutiveFailures >= this.maxFailures) {
+        endpoint.unhealthyUntil = Date.now() + this.cooldown;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask endpoints until results with enough total weight agree
+   */
+  private async quorumCall<T>(method: string, params: any[]): Promise<T> {
+    const queue = this.ordered();
+    const results: Array<{ result: T; weight: number }> = [];
+    let lastError: unknown;
+
+    const ask = async (endpoint: Endpoint): Promise<void> => {
+      try {
+        results.push({ result: await this.run(endpoint, e => e.client.call<T>(method, params)), weight: endpoint.config.weight });
+      } catch (error) {
+        if (!isRetryableError(error)) throw error;
+        lastError = error;
+      }
+    };
+
+    let needed = this.quorum;
+    while (queue.length > 0) {
+      // First round: just enough endpoints to reach quorum, then one more at a time
+      const batch: Endpoint[] = [];
+      let weight = 0;
+      do {
+        const endpoint = queue.shift()!;
+        batch.push(endpoint);
+        weight += endpoint.config.weight;
+      } while (queue.length > 0 && weight < needed);
+      needed = 0;
+
+      await Promise.all(batch.map(ask));
+
+      const agreed = agreeOn(method, results, this.quorum);
+      if (agreed !== undefined) {
+        return agreed;
+      }
+    }
+
+    throw new NanoPyError(
+      `Quorum of ${this.quorum} not reached for ${method} (${results.length} responses)`,
+      'QUORUM_NOT_REACHED',
+      lastError
+    );
+  }
+}
+
+/**
+ * Result that enough endpoints agree on. For block numbers (nodes may lag a block)
+ * the highest number that at least `quorum` weight has reached.
+ */
+function agreeOn<T>(method: string, results: Array<{ result: T; weight: number }>, quorum: number): T | undefined {
+  if (method === 'eth_blockNumber') {
+    const sorted = [...results].sort((a, b) => (BigInt(b.result as any) > BigInt(a.result as any) ? 1 : -1));
+    let weight = 0;
+    for (const r of sorted) {
+      weight += r.weight;
+      if (weight >= quorum) return r.result;
+    }
+    return undefined;
+  }
+
+  const tally = new Map<string, { result: T; weight: number }>();
+  for (const r of results) {
+    const key = JSON.stringify(r.result);
+    const entry = tally.get(key) || { result: r.result, weight: 0 };
+    entry.weight += r.weight;
+    tally.set(key, entry);
+    if (entry.weight >= quorum) return entry.result;
+  }
+  return undefined;
+}
@@ -0,0 +1,39 @@
+/**
+ * NanoPy SDK Fees
+ * Fee strategies applied to gas oracle suggestions
+ */
+
+import { FeeData, FeeStrategy, GasSuggestions } from './types';
+
+/**
+ * Apply fee strategy to gas oracle suggestions
+ * @param strategy - Oracle level or custom function (receives the standard level)
+ * @param suggestions - Gas oracle suggestions
+ * @returns Fees to use
+ */
+export async function applyFeeStrategy(strategy: FeeStrategy, suggestions: GasSuggestions): Promise<FeeData> {
+  if (typeof strategy === 'function') {
+    return strategy(suggestions.standard);
+  }
+
+  const fees = suggestions[strategy];
+  if (fees === undefined || !['slow', 'standard', 'fast'].includes(strategy)) {
+    throw new Error(`Unknown fee strategy: ${strategy}`);
+  }
+  return fees;
+}
+
+/**
+ * Add safety margin to gas estimate, capped at block gas limit
+ * @param estimate - Estimated gas
+ * @param marginPercent - Margin in percent
+ * @param blockGasLimit - Block gas limit (no cap when omitted)
+ */
+export function applyGasMargin(estimate: bigint, marginPercent: number, blockGasLimit?: bigint): bigint {
+  if (blockGasLimit !== undefined && estimate > blockGasLimit) {
+    throw new Error(`Estimated gas ${estimate} exceeds block gas limit ${blockGasLimit}`);
+  }
+
+  const withMargin = estimate * BigInt(100 + Math.ceil(marginPercent)) / 100n;
+  return blockGasLimit !== undefined && withMargin > blockGasLimit ? blockGasLimit : withMargin;
+}
@@ -0,0 +1,100 @@
+/**
+ * NanoPy SDK Response Formatting
+ * Converts raw JSON-RPC results (hex quantities) into typed values
+ */
+
+import { Block, Formatters, Log, Transaction, TransactionReceipt } from './types';
+
+/**
+ * Build formatter set, replacing individual formatters for node quirks.
+ * Nested values use the final set (e.g. receipt logs go through `log`).
+ *
+ * @example
+ * ```typescript
+ * // Node reports receipt status as a boolean
+ * const formatters = createFormatters({
+ *   receipt: raw => formatReceipt({ ...raw, status: raw.status === true ? 1 : raw.status === false ? 0 : raw.status })
+ * });
+ * const rpc = new RPCClient(url, { formatters });
+ * ```
+ */
+export function createFormatters(overrides: Partial<Formatters> = {}): Formatters {
+  const formatters: Formatters = {
+    block: value => formatBlock(value, formatters),
+    transaction: value => formatTransaction(value),
+    receipt: value => formatReceipt(value, formatters),
+    log: value => formatLog(value),
+    ...overrides
+  };
+  return formatters;
+}
+
+/**
+ * Format block (or new head): counters as number, difficulty and base fee as bigint
+ */
+export function formatBlock(value: any, formatters: Formatters = defaultFormatters): Block {
+  const block = { ...value };
+  convert(block, ['number', 'size', 'gasLimit', 'gasUsed', 'timestamp'], toNumber);
+  convert(block, ['difficulty', 'totalDifficulty', 'baseFeePerGas'], toBigInt);
+  if (Array.isArray(block.transactions)) {
+    block.transactions = block.transactions.map((tx: any) =>
+      typeof tx === 'string' ? tx : formatters.transaction(tx)
+    );
+  }
+  return block;
+}
+
+/**
+ * Format transaction: indices as number, wei values as bigint
+ */
+export function formatTransaction(value: any): Transaction {
+  const tx = { ...value };
+  convert(tx, ['nonce', 'blockNumber', 'transactionIndex', 'gas', 'type', 'chainId'], toNumber);
+  convert(tx, ['value', 'gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas'], toBigInt);
+  return tx;
+}
+
+/**
+ * Format receipt: indices, gas and status as number, effective gas price as bigint
+ */
+export function formatReceipt(value: any, formatters: Formatters = defaultFormatters): TransactionReceipt {
+  const receipt = { ...value };
+  convert(receipt, ['blockNumber', 'transactionIndex', 'cumulativeGasUsed', 'gasUsed', 'status', 'type'], toNumber);
+  convert(receipt, ['effectiveGasPrice'], toBigInt);
+  if (Array.isArray(receipt.logs)) {
+    receipt.logs = receipt.logs.map((log: any) => formatters.log(log));
+  }
+  return receipt;
+}
+
+/**
+ * Format log: block number and indices as number
+ */
+export function formatLog(value: any): Log {
+  const log = { ...value };
+  convert(log, ['blockNumber', 'transactionIndex', 'logIndex'], toNumber);
+  log.removed = !!log.removed;
+  return log;
+}
+
+const defaultFormatters = createFormatters();
+
+/**
+ * Convert fields present on the object (missing and null fields are kept as is)
+ */
+function convert(target: any, fields: string[], fn: (value: any) => any): void {
+  for (const field of fields) {
+    if (target[field] !== null && target[field] !== undefined) {
+      target[field] = fn(target[field]);
+    }
+  }
+}
+
+// Hex or decimal quantity (some nodes return decimal strings or JSON numbers)
+function toBigInt(value: any): bigint {
+  return typeof value === 'bigint' ? value : BigInt(value);
+}
+
+function toNumber(value: any): number {
+  return typeof value === 'number' ? value : Number(toBigInt(value));
+}
@@ -6,8 +6,7 @@
 import { Contract } from './contract';
 import { ERC721 } from './erc721';
 import { ERC20 } from './erc20';
-import { Wallet } from './wallet';
-import { TransactionReceipt, ABI } from './types';
+import { TransactionReceipt, ABI, Signer } from './types';
 import { keccak256 } from 'js-sha3';
 import { bytesToHex } from './utils';
 
@@ -97,13 +96,13 @@ export class GameItems {
    * Transfer item
    */
   async transfer(
-    wallet: Wallet,
+    signer: Signer,
     to: string,
     itemId: bigint | number,
     amount: bigint | number
   ): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'safeTransferFrom', [
-      wallet.address,
+    return this.contract.send(signer, 'safeTransferFrom', [
+      await signer.getAddress(),
       to,
       BigInt(itemId),
       BigInt(amount),
@@ -115,13 +114,13 @@ export class GameItems {
    * Batch transfer items
    */
   async batchTransfer(
-    wallet: Wallet,
+    signer: Signer,
     to: string,
     itemIds: (bigint | number)[],
     amounts: (bigint | number)[]
   ): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'safeBatchTransferFrom', [
-      wallet.address,
+    return this.contract.send(signer, 'safeBatchTransferFrom', [
+      await signer.getAddress(),
       to,
       itemIds.map(BigInt),
       amounts.map(BigInt),
@@ -139,8 +138,8 @@ export class GameItems {
   /**
    * Set approval for marketplace/game contract
    */
-  async setApprovalForAll(wallet: Wallet, operator: string, approved: boolean): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'setApprovalForAll', [operator, approved]);
+  async setApprovalForAll(signer: Signer, operator: string, approved: boolean): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'setApprovalForAll', [operator, approved]);
   }
 }
 
@@ -197,8 +196,8 @@ export class Leaderboard {
   /**
    * Submit score (signed by player)
    */
-  async submitScore(wallet: Wallet, score: bigint | number): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'submitScore', [BigInt(score)]);
+  async submitScore(signer: Signer, score: bigint | number): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'submitScore', [BigInt(score)]);
   }
 }
 
@@ -302,8 +301,8 @@ export class Rewards {
   /**
    * Claim reward
    */
-  async claimReward(wallet: Wallet): Promise<TransactionReceipt> {
-    return this.contract.send(wallet, 'claimReward', []);
+  async claimReward(signer: Signer): Promise<TransactionReceipt> {
+    return this.contract.send(signer, 'claimReward', []);
   }
 }
 
@@ -388,29 +387,48 @@ export class GameRandom {
 
 /**
  * Manage game session with signed messages
+ *
+ * @example
+ * ```typescript
+ * const session = await GameSession.start(wallet, gameAddress); // or BrowserProvider, any Signer
+ * const signature = await session.signAction('move', { x: 3, y: 4 });
+ * ```
  */
 export class GameSession {
-  private wallet: Wallet;
+  private signer: Signer;
+  private player: string;
   private gameContract: string;
   private sessionId: string;
   private startTime: number;
 
-  constructor(wallet: Wallet, gameContract: string) {
-    this.wallet = wallet;
+  /**
+   * @param signer - Player (Wallet, BrowserProvider or any Signer)
+   * @param player - Address of the signer
+   */
+  constructor(signer: Signer, player: string, gameContract: string) {
+    this.signer = signer;
+    this.player = player;
     this.gameContract = gameContract;
     this.startTime = Date.now();
     this.sessionId = this.generateSessionId();
   }
 
+  /**
+   * Start session for signer (resolves its address)
+   */
+  static async start(signer: Signer, gameContract: string): Promise<GameSession> {
+    return new GameSession(signer, await signer.getAddress(), gameContract);
+  }
+
   private generateSessionId(): string {
-    const data = `${this.wallet.address}:${this.gameContract}:${this.startTime}`;
+    const data = `${this.player}:${this.gameContract}:${this.startTime}`;
     return '0x' + keccak256(data).slice(0, 16);
   }
 
   /**
    * Sign game action (for off-chain verification)
    */
-  signAction(action: string, data: Record<string, any>): string {
+  async signAction(action: string, data: Record<string, any>): Promise<string> {
     const message = JSON.stringify({
       sessionId: this.sessionId,
       action,
@@ -418,7 +436,7 @@ export class GameSession {
       timestamp: Date.now()
     });
 
-    return this.wallet.sign(message);
+    return this.signer.signMessage(message);
   }
 
   /**
@@ -427,7 +445,7 @@ export class GameSession {
   getSessionInfo() {
     return {
       sessionId: this.sessionId,
-      player: this.wallet.address,
+      player: this.player,
       gameContract: this.gameContract,
       startTime: this.startTime,
       duration: Date.now() - this.startTime
@@ -0,0 +1,239 @@
+/**
+ * NanoPy SDK Gas Oracle
+ * Fee suggestions from eth_feeHistory, or from recent blocks' transactions
+ */
+
+import { Block, GasOracleOptions, GasSuggestions, Transaction } from './types';
+import { RPCClient, isRetryableError } from './rpc';
+import { NanoPyError, RpcError } from './errors';
+import { hexToNumber } from './utils';
+
+// Tip used when recent blocks are empty and the node has no suggestion
+const DEFAULT_PRIORITY_FEE = 1000000000n; // 1 Gwei
+
+type Level = 'slow' | 'standard' | 'fast';
+const LEVELS: Level[] = ['slow', 'standard', 'fast'];
+
+/**
+ * Suggests slow / standard / fast fees from recent network activity.
+ * Uses eth_feeHistory reward percentiles when the node supports it, otherwise
+ * the tips paid by transactions in recent blocks. Results are cached per block.
+ *
+ * @example
+ * ```typescript
+ * const oracle = new GasOracle(client.rpc, { blocks: 10, percentiles: { fast: 95 } });
+ * const { slow, standard, fast } = await oracle.getSuggestions();
+ * console.log(fast.maxPriorityFeePerGas);
+ * ```
+ */
+export class GasOracle {
+  private rpc: RPCClient;
+  private blocks: number;
+  private sampleBlocks: number;
+  private percentiles: Record<Level, number>;
+  private feeHistorySupported: boolean = true;
+  private cached: { blockNumber: number; suggestions: Promise<GasSuggestions> } | null = null;
+
+  constructor(rpc: RPCClient, options: GasOracleOptions = {}) {
+    this.rpc = rpc;
+    this.blocks = options.blocks ?? 20;
+    this.sampleBlocks = options.sampleBlocks ?? 5;
+    this.percentiles = { slow: 10, standard: 50, fast: 90, ...options.percentiles };
+
+    // eth_feeHistory rejects percentiles that are not strictly increasing
+    const { slow, standard, fast } = this.percentiles;
+    if (!(slow >= 0 && slow < standard && standard < fast && fast <= 100)) {
+      throw new Error(`Gas oracle percentiles must be ascending between 0 and 100, got ${slow}, ${standard}, ${fast}`);
+    }
+  }
+
+  /**
+   * Fee suggestions for the next block (cached until a new block arrives)
+   */
+  async getSuggestions(): Promise<GasSuggestions> {
+    const blockNumber = hexToNumber(await this.rpc.getBlockNumber());
+    if (this.cached && this.cached.blockNumber === blockNumber) {
+      return this.cached.suggestions;
+    }
+
+    const suggestions = this.compute(blockNumber);
+    this.cached = { blockNumber, suggestions };
+    // Do not cache failures
+    suggestions.catch(() => {
+      if (this.cached?.suggestions === suggestions) this.cached = null;
+    });
+    return suggestions;
+  }
+
+  private async compute(blockNumber: number): Promise<GasSuggestions> {
+    if (this.feeHistorySupported) {
+      try {
+        return await this.fromFeeHistory(blockNumber);
+      } catch (error) {
+        if (!(error instanceof RpcError) || isRetryableError(error)) throw error;
+        // Method not available: use blocks from now on; other node errors only this time
+        if (isUnsupportedMethod(error)) this.feeHistorySupported = false;
+      }
+    }
+
+    const fromBlocks = await this.fromBlocks(blockNumber);
+    if (fromBlocks) {
+      return fromBlocks;
+    }
+    return this.fromGasPrice(blockNumber);
+  }
+
+  /**
+   * Median over recent blocks of each reward percentile
+   */
+  private async fromFeeHistory(blockNumber: number): Promise<GasSuggestions> {
+    const percentiles = LEVELS.map(level => this.percentiles[level]);
+    const history = await this.rpc.call<{
+      baseFeePerGas?: string[];
+      gasUsedRatio: number[];
+      reward?: string[][];
+    }>('eth_feeHistory', ['0x' + this.blocks.toString(16), 'latest', percentiles]);
+
+    // Last entry is the base fee of the next block
+    const baseFees = (history.baseFeePerGas || []).map(fee => BigInt(fee));
+    const nextBaseFee = baseFees.length > 0 ? baseFees[baseFees.length - 1] : 0n;
+
+    // Empty blocks report zero rewards
+    const rewards = (history.reward || []).filter((_, i) => history.gasUsedRatio[i] > 0);
+    const tips = rewards.length > 0
+      ? LEVELS.map((_, i) => median(rewards.map(r => BigInt(r[i]))))
+      : await this.idleTips();
+
+    return this.build(blockNumber, 'feeHistory', nextBaseFee > 0n ? nextBaseFee : undefined, tips);
+  }
+
+  /**
+   * Percentiles of tips paid in recent blocks
+   * @returns null if the blocks contain no transactions
+   */
+  private async fromBlocks(blockNumber: number): Promise<GasSuggestions | null> {
+    const numbers: number[] = [];
+    for (let n = blockNumber; n >= 0 && numbers.length < this.sampleBlocks; n--) {
+      numbers.push(n);
+    }
+    const blocks = (await Promise.all(numbers.map(n => this.rpc.getBlockByNumber(n, true))))
+      .filter((block): block is Block => block !== null);
+    if (blocks.length === 0) {
+      return null;
+    }
+
+    const baseFee = blocks[0].baseFeePerGas;
+    const tips: bigint[] = [];
+    for (const block of blocks) {
+      for (const tx of block.transactions as Transaction[]) {
+        if (typeof tx === 'object') tips.push(effectiveTip(tx, block.baseFeePerGas));
+      }
+    }
+    if (tips.length === 0) {
+      return null;
+    }
+
+    tips.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const levelTips = LEVELS.map(level => percentile(tips, this.percentiles[level]));
+    return this.build(blockNumber, 'blocks', baseFee, levelTips);
+  }
+
+  /**
+   * Node suggestion only (no recent transactions to learn from)
+   */
+  private async fromGasPrice(blockNumber: number): Promise<GasSuggestions> {
+    const [gasPrice, block] = await Promise.all([
+      this.rpc.getGasPrice().catch(() => null),
+      this.rpc.getBlockByNumber('latest').catch(() => null)
+    ]);
+    const baseFee = block?.baseFeePerGas;
+
+    if (baseFee !== undefined) {
+      const tip = (await this.idleTips())[0];
+      return this.build(blockNumber, 'gasPrice', baseFee, [tip, tip, tip]);
+    }
+    if (gasPrice === null) {
+      throw new NanoPyError('Unable to determine gas price: eth_feeHistory, blocks and eth_gasPrice all failed', 'RPC_ERROR');
+    }
+    const price = BigInt(gasPrice);
+    return this.build(blockNumber, 'gasPrice', undefined, [price, price, price]);
+  }
+
+  /**
+   * Tip when there is no recent activity: node suggestion, else 1 gwei
+   */
+  private async idleTips(): Promise<bigint[]> {
+    const tip = await this.rpc.getMaxPriorityFeePerGas()
+      .then(hex => BigInt(hex))
+      .catch(() => DEFAULT_PRIORITY_FEE);
+    return [tip, tip, tip];
+  }
+
+  /**
+   * Fees per level. Without a base fee (legacy chain) tips are full gas prices.
+   */
+  private build(
+    blockNumber: number,
+    source: GasSuggestions['source'],
+    baseFeePerGas: bigint | undefined,
+    tips: bigint[]
+  ): GasSuggestions {
+    const suggestions = { blockNumber, source, baseFeePerGas } as GasSuggestions;
+
+    let previous = 0n;
+    LEVELS.forEach((level, i) => {
+      // Percentiles of sparse samples are not always ordered
+      const tip = tips[i] > previous ? tips[i] : previous;
+      previous = tip;
+
+      suggestions[level] = baseFeePerGas === undefined
+        ? { gasPrice: tip }
+        : {
+            gasPrice: baseFeePerGas + tip,
+            baseFeePerGas,
+            maxPriorityFeePerGas: tip,
+            // Allow base fee to double before the transaction becomes unmineable
+            maxFeePerGas: baseFeePerGas * 2n + tip
+          };
+    });
+
+    return suggestions;
+  }
+}
+
+/**
+ * Tip the miner received per gas
+ */
+function effectiveTip(tx: Transaction, baseFee: bigint | undefined): bigint {
+  const base = baseFee ?? 0n;
+  if (tx.maxFeePerGas !== undefined) {
+    const priority = tx.maxPriorityFeePerGas ?? 0n;
+    const available = tx.maxFeePerGas - base;
+    return priority < available ? priority : available;
+  }
+  return tx.gasPrice > base ? tx.gasPrice - base : 0n;
+}
+
+/**
+ * Node answered that the method does not exist or is disabled
+ */
+function isUnsupportedMethod(error: RpcError): boolean {
+  if (error.rpcCode === -32601) {
+    return true;
+  }
+  const message = error.message.toLowerCase();
+  return /method .*(not found|not supported|not available|does not exist)|unsupported method/.test(message);
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: bigint[], p: number): bigint {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
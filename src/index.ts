@@ -39,6 +39,15 @@ import { RPCClient } from './rpc';
 import { WSClient } from './ws';
 import { Wallet } from './wallet';
 import { Contract } from './contract';
+import { parseAbi } from './abi';
+import { decodeRevertData, getRevertData, toRevertError } from './revert';
+import { RpcError, TransactionRevertedError } from './errors';
+import { NonceManager, isNonceError } from './nonce';
+import { TransactionResponse } from './response';
+import { applyFeeStrategy, applyGasMargin } from './fees';
+import { GasOracle } from './gas';
+import { formatCallTrace, formatPrestate } from './trace';
+import { toRpcTransaction } from './transaction';
 import { ERC20 } from './erc20';
 import { ERC721 } from './erc721';
 import { GameItems, Leaderboard, Achievements, Rewards, GameRandom, GameSession } from './gaming';
@@ -51,8 +60,18 @@ import {
   TransactionReceipt,
   Block,
   NetworkInfo,
+  ABIInput,
+  CallOptions,
+  Signer,
+  FeeData,
+  FeeStrategy,
   ABI,
-  CallOptions
+  CallTrace,
+  CallTracerOptions,
+  PrestateTrace,
+  PrestateDiff,
+  PrestateTracerOptions,
+  TraceOptions
 } from './types';
 
 export class NanoPy {
@@ -60,7 +79,14 @@ export class NanoPy {
   readonly ws: WSClient;
   readonly chainId: number;
   readonly network: NetworkConfig;
+  readonly nonces: NonceManager;
+  readonly gasOracle: GasOracle;
+  readonly pollingInterval: number;
   private gasPrice: string | null;
+  private eip1559: boolean;
+  private feeStrategy: FeeStrategy;
+  private gasMargin: number;
+  private abis: Map<string, ABI> = new Map();
 
   /**
    * Create NanoPy client
@@ -78,6 +104,11 @@ export class NanoPy {
    *   chainId: 1337,
    *   timeout: 30000
    * });
+   *
+   * // Several nodes with failover
+   * const resilient = new NanoPy(NETWORKS.mainnet, {
+   *   provider: new FallbackProvider([NETWORKS.mainnet.rpcUrl, 'https://backup.example.com'])
+   * });
    * ```
    */
   constructor(urlOrNetwork: string | NetworkConfig, options: NanoPyOptions = {}) {
@@ -93,10 +124,27 @@ export class NanoPy {
       this.network = urlOrNetwork;
     }
 
-    this.rpc = new RPCClient(this.network.rpcUrl, options.timeout);
-    this.ws = new WSClient(this.network.wsUrl || this.network.rpcUrl);
+    this.rpc = options.provider || new RPCClient(this.network.rpcUrl, {
+      timeout: options.timeout,
+      retry: options.retry,
+      batch: options.batch,
+      cache: options.cache,
+      rateLimit: options.rateLimit,
+      formatters: options.formatters,
+      transport: options.transport
+    });
+    this.ws = new WSClient(this.network.wsUrl || this.network.rpcUrl, {
+      formatters: this.rpc.formatters,
+      WebSocket: options.webSocket
+    });
     this.chainId = this.network.chainId;
+    this.nonces = new NonceManager(this.rpc);
+    this.pollingInterval = options.pollingInterval || 1000;
     this.gasPrice = options.gasPrice ? utils.numberToHex(BigInt(options.gasPrice)) : null;
+    this.eip1559 = options.eip1559 !== false;
+    this.feeStrategy = options.feeStrategy || 'standard';
+    this.gasOracle = new GasOracle(this.rpc, options.gasOracle);
+    this.gasMargin = options.gasMargin ?? 20;
   }
 
   // ============ Static Factory Methods ============
@@ -175,10 +223,16 @@ export class NanoPy {
    * ```
    */
   async send(
-    wallet: Wallet,
+    signer: Signer,
     to: string,
     amount: string | number,
-    options: { gasLimit?: string; gasPrice?: string; data?: string } = {}
+    options: {
+      gasLimit?: string;
+      gasPrice?: string;
+      maxFeePerGas?: string;
+      maxPriorityFeePerGas?: string;
+      data?: string;
+    } = {}
   ): Promise<TransactionReceipt> {
     const value = utils.toWei(amount);
 
@@ -186,54 +240,296 @@ export class NanoPy {
       to,
       value: utils.numberToHex(value),
       data: options.data || '0x',
-      gasLimit: options.gasLimit || '0x5208', // 21000
-      gasPrice: options.gasPrice || await this._getGasPrice()
+      gasLimit: options.gasLimit,
+      gasPrice: options.gasPrice,
+      maxFeePerGas: options.maxFeePerGas,
+      maxPriorityFeePerGas: options.maxPriorityFeePerGas
     };
 
-    return this.sendTransaction(wallet, tx);
+    return this.sendTransaction(signer, tx);
+  }
+
+  /**
+   * Send transaction with any Signer and wait for the receipt
+   * @param abi - Contract ABI for decoding custom errors if the transaction fails
+   * @throws TransactionRevertedError with the receipt if the transaction failed when mined
+   */
+  async sendTransaction(signer: Signer, tx: TransactionRequest, abi: ABIInput = []): Promise<TransactionReceipt> {
+    const response = await this.submitTransaction(signer, tx);
+    return this.confirmTransaction(response, abi);
+  }
+
+  /**
+   * Wait for a broadcast transaction and check that it succeeded
+   * @param abi - Contract ABI for decoding custom errors if the transaction fails
+   * @throws TransactionRevertedError with the receipt and decoded reason if it failed when mined
+   *
+   * @example
+   * ```typescript
+   * const tx = await client.submitTransaction(wallet, request);
+   * showPending(tx.hash);
+   * const receipt = await client.confirmTransaction(tx, abi);
+   * ```
+   */
+  async confirmTransaction(response: TransactionResponse, abi: ABIInput = []): Promise<TransactionReceipt> {
+    const receipt = await response.wait();
+    if (receipt.status === 0) {
+      const error = await this.replayTransaction(receipt.transactionHash, abi).catch(() => null);
+      throw error || new TransactionRevertedError(null, '0x', receipt);
+    }
+    return receipt;
   }
 
   /**
-   * Send raw transaction
+   * Broadcast transaction without waiting for it to be mined
+   * Signers with signTransaction (Wallet) are signed locally and broadcast,
+   * send-only signers (BrowserProvider) broadcast themselves.
+   *
+   * @example
+   * ```typescript
+   * const tx = await client.submitTransaction(wallet, { to, value: '0x1' });
+   * console.log('Pending:', tx.hash);
+   * const receipt = await tx.wait();
+   * ```
    */
-  async sendTransaction(wallet: Wallet, tx: TransactionRequest): Promise<TransactionReceipt> {
-    const nonceHex = await this.rpc.getTransactionCount(wallet.address);
-    tx.nonce = utils.hexToNumber(nonceHex);
+  async submitTransaction(signer: Signer, tx: TransactionRequest): Promise<TransactionResponse> {
+    const address = await signer.getAddress();
+
+    if (!signer.signTransaction) {
+      if (!signer.sendTransaction) {
+        throw new Error('Signer can neither sign nor send transactions');
+      }
+      const hash = await signer.sendTransaction(tx);
+      return new TransactionResponse(this, signer, hash, address, tx);
+    }
+
     tx.chainId = this.chainId;
+    await this._populateFees(tx);
+    await this._populateGasLimit(tx, address);
+
+    // Explicit nonce bypasses the nonce manager
+    if (tx.nonce !== undefined) {
+      const hash = await this.rpc.sendRawTransaction(await signer.signTransaction(tx));
+      return new TransactionResponse(this, signer, hash, address, tx);
+    }
 
-    if (!tx.gasPrice) {
-      tx.gasPrice = await this._getGasPrice();
+    let hash: string;
+    try {
+      hash = await this._signAndSend(signer, address, tx);
+    } catch (error) {
+      if (!isNonceError(error)) throw error;
+      // Key was used elsewhere: resync with the node and retry once
+      this.nonces.resync(address);
+      hash = await this._signAndSend(signer, address, tx);
     }
 
-    const signedTx = wallet.signTransaction(tx);
-    const txHash = await this.rpc.sendRawTransaction(signedTx);
-    return this.rpc.waitForTransaction(txHash);
+    return new TransactionResponse(this, signer, hash, address, tx);
+  }
+
+  private async _signAndSend(signer: Signer, address: string, tx: TransactionRequest): Promise<string> {
+    const nonce = await this.nonces.next(address);
+    let signedTx: string;
+    try {
+      signedTx = await signer.signTransaction!({ ...tx, nonce });
+    } catch (error) {
+      this.nonces.release(address, nonce);
+      throw error;
+    }
+
+    try {
+      const txHash = await this.rpc.sendRawTransaction(signedTx);
+      tx.nonce = nonce;
+      return txHash;
+    } catch (error) {
+      if (isNonceError(error)) {
+        this.nonces.resync(address);
+      } else if (error instanceof RpcError) {
+        // Node rejected the transaction, the nonce is unused
+        this.nonces.release(address, nonce);
+      } else {
+        // Timeout or network error: the transaction may have reached the node
+        this.nonces.resync(address);
+      }
+      throw error;
+    }
   }
 
   /**
    * Estimate gas for transaction
    */
   async estimateGas(tx: TransactionRequest): Promise<number> {
-    const gasHex = await this.rpc.estimateGas(tx);
+    const gasHex = await this.rpc.estimateGas(toRpcTransaction(tx));
     return utils.hexToNumber(gasHex);
   }
 
-  private async _getGasPrice(): Promise<string> {
-    if (this.gasPrice) return this.gasPrice;
+  /**
+   * Recover why a mined transaction failed by replaying it with eth_call at its block
+   * @param txHash - Transaction hash
+   * @param abi - Contract ABI for decoding custom errors
+   * @returns Revert error (not thrown) with receipt, or null if the transaction did not fail
+   *
+   * @example
+   * ```typescript
+   * const error = await client.replayTransaction(txHash, abi);
+   * console.log(error?.reason?.message); // "Not enough tokens"
+   * ```
+   */
+  async replayTransaction(txHash: string, abi: ABIInput = []): Promise<TransactionRevertedError | null> {
+    const [tx, receipt] = await Promise.all([
+      this.rpc.getTransactionByHash(txHash),
+      this.rpc.getTransactionReceipt(txHash)
+    ]);
+    if (!tx || !receipt || receipt.status !== 0) {
+      return null;
+    }
+
     try {
-      return await this.rpc.getGasPrice();
-    } catch {
-      return '0x3B9ACA00'; // 1 Gwei
+      await this.rpc.ethCall({
+        from: tx.from,
+        to: tx.to,
+        data: tx.input,
+        value: utils.numberToHex(tx.value),
+        gas: utils.numberToHex(tx.gas)
+      }, utils.numberToHex(receipt.blockNumber));
+    } catch (error) {
+      const data = getRevertData(error);
+      if (data !== null) {
+        return new TransactionRevertedError(decodeRevertData(data, parseAbi(abi)), data, receipt);
+      }
+      throw error;
+    }
+
+    // Call succeeds when replayed (e.g. ran out of gas), reason unknown
+    return new TransactionRevertedError(null, '0x', receipt);
+  }
+
+  /**
+   * Fill in fee fields: EIP-1559 fees from the latest base fee when the node
+   * supports it, legacy gas price otherwise. Fields already set win; fee fields
+   * that contradict an explicit `type` are rejected.
+   */
+  private async _populateFees(tx: TransactionRequest): Promise<void> {
+    const has1559Fees = tx.maxFeePerGas !== undefined || tx.maxPriorityFeePerGas !== undefined;
+    if ((tx.type === 0 || tx.type === 1) && has1559Fees) {
+      throw new Error(`Type ${tx.type} transaction cannot set maxFeePerGas or maxPriorityFeePerGas, use gasPrice`);
+    }
+    if ((tx.type === 2 || has1559Fees) && tx.gasPrice) {
+      throw new Error('EIP-1559 transaction cannot set gasPrice, use maxFeePerGas and maxPriorityFeePerGas');
+    }
+
+    const wants1559 = tx.type === 2 || has1559Fees;
+    const wantsLegacy = tx.type === 0 || tx.type === 1 || !!tx.gasPrice || !!this.gasPrice || !this.eip1559;
+
+    if (!wants1559 && wantsLegacy) {
+      if (!tx.gasPrice) {
+        tx.gasPrice = this.gasPrice || utils.numberToHex((await this.getFeeData()).gasPrice);
+      }
+      return;
+    }
+
+    const fees = await this.getFeeData();
+    if (fees.maxFeePerGas === undefined || fees.maxPriorityFeePerGas === undefined) {
+      if (wants1559 && tx.maxFeePerGas === undefined) {
+        throw new Error('Node does not support EIP-1559, set maxFeePerGas or use gasPrice');
+      }
+      if (!wants1559) {
+        tx.gasPrice = utils.numberToHex(fees.gasPrice);
+        return;
+      }
+    }
+
+    if (tx.maxPriorityFeePerGas === undefined) {
+      tx.maxPriorityFeePerGas = utils.numberToHex(fees.maxPriorityFeePerGas ?? 0n);
+    }
+    if (tx.maxFeePerGas === undefined) {
+      tx.maxFeePerGas = utils.numberToHex(fees.maxFeePerGas!);
     }
+    tx.type = 2;
+    delete tx.gasPrice;
+  }
+
+  /**
+   * Estimate gas limit with safety margin when not set, capped at block gas limit
+   */
+  private async _populateGasLimit(tx: TransactionRequest, from: string): Promise<void> {
+    if (tx.gasLimit !== undefined) return;
+
+    const [estimateHex, block] = await Promise.all([
+      this.rpc.estimateGas({
+        from,
+        to: tx.to || undefined,
+        data: tx.data,
+        value: tx.value !== undefined ? utils.numberToHex(BigInt(tx.value)) : undefined
+      }).catch(error => {
+        // Transaction would revert
+        throw toRevertError(error);
+      }),
+      this.rpc.getBlockByNumber('latest').catch(() => null)
+    ]);
+
+    const blockGasLimit = block && block.gasLimit ? BigInt(block.gasLimit) : undefined;
+    tx.gasLimit = utils.numberToHex(applyGasMargin(BigInt(estimateHex), this.gasMargin, blockGasLimit));
+  }
+
+  /**
+   * Fees for the next transaction: gas oracle suggestion for the configured
+   * fee strategy. The fixed `gasPrice` option replaces the legacy gas price only;
+   * EIP-1559 fees still come from the oracle.
+   * @param strategy - Fee level or custom function (default: client's feeStrategy)
+   *
+   * @example
+   * ```typescript
+   * const fees = await client.getFeeData('fast');
+   * console.log(fees.maxFeePerGas, fees.maxPriorityFeePerGas);
+   * ```
+   */
+  async getFeeData(strategy: FeeStrategy = this.feeStrategy): Promise<FeeData> {
+    const gasPrice = this.gasPrice ? BigInt(this.gasPrice) : undefined;
+    if (gasPrice !== undefined && !this.eip1559) {
+      return { gasPrice };
+    }
+
+    const fees = await applyFeeStrategy(strategy, await this.gasOracle.getSuggestions());
+    if (!this.eip1559) {
+      return { gasPrice: fees.gasPrice };
+    }
+    return gasPrice !== undefined ? { ...fees, gasPrice } : fees;
   }
 
   // ============ Contract Methods ============
 
   /**
    * Create contract instance
+   *
+   * @example
+   * ```typescript
+   * const token = client.contract(address, [
+   *   'function transfer(address to, uint256 amount) returns (bool)',
+   *   'event Transfer(address indexed from, address indexed to, uint256 value)'
+   * ]);
+   * ```
+   */
+  contract(address: string, abi: ABIInput): Contract {
+    const contract = new Contract(address, abi, this);
+    this.registerAbi(contract);
+    return contract;
+  }
+
+  /**
+   * Register an ABI so traces decode calls and errors of this address.
+   * Contracts created with contract() or deployContract() are registered automatically.
+   *
+   * @example
+   * ```typescript
+   * client.registerAbi(routerAddress, ['function swap(uint256 amountIn, address to) returns (uint256)']);
+   * ```
    */
-  contract(address: string, abi: ABI): Contract {
-    return new Contract(address, abi, this);
+  registerAbi(addressOrContract: string | Contract, abi?: ABIInput): void {
+    if (addressOrContract instanceof Contract) {
+      this.abis.set(addressOrContract.address.toLowerCase(), addressOrContract.abi);
+      return;
+    }
+    this.abis.set(addressOrContract.toLowerCase(), parseAbi(abi || []));
   }
 
   /**
@@ -251,17 +547,24 @@ export class NanoPy {
    * ```
    */
   async deployContract(
-    wallet: Wallet,
+    signer: Signer,
     bytecode: string,
-    abi: ABI = [],
+    abiInput: ABIInput = [],
     constructorArgs: any[] = [],
-    options: { value?: string; gasLimit?: string; gasPrice?: string } = {}
+    options: {
+      value?: string;
+      gasLimit?: string;
+      gasPrice?: string;
+      maxFeePerGas?: string;
+      maxPriorityFeePerGas?: string;
+    } = {}
   ): Promise<{
     address: string;
     transactionHash: string;
     receipt: TransactionReceipt;
     contract: Contract | null;
   }> {
+    const abi = parseAbi(abiInput);
     let data = bytecode;
 
     if (constructorArgs.length > 0 && abi.length > 0) {
@@ -276,11 +579,13 @@ export class NanoPy {
       to: null,
       data,
       value: options.value || '0x0',
-      gasLimit: options.gasLimit || '0x4C4B40', // 5M
-      gasPrice: options.gasPrice || await this._getGasPrice()
+      gasLimit: options.gasLimit,
+      gasPrice: options.gasPrice,
+      maxFeePerGas: options.maxFeePerGas,
+      maxPriorityFeePerGas: options.maxPriorityFeePerGas
     };
 
-    const receipt = await this.sendTransaction(wallet, tx);
+    const receipt = await this.sendTransaction(signer, tx, abi);
 
     return {
       address: receipt.contractAddress!,
@@ -352,9 +657,10 @@ export class NanoPy {
 
   /**
    * Create game session for signed actions
+   * @param signer - Player (Wallet, BrowserProvider or any Signer)
    */
-  createGameSession(wallet: Wallet, gameContract: string): GameSession {
-    return new GameSession(wallet, gameContract);
+  async createGameSession(signer: Signer, gameContract: string): Promise<GameSession> {
+    return GameSession.start(signer, gameContract);
   }
 
   // ============ Block Methods ============
@@ -414,6 +720,76 @@ export class NanoPy {
     }
   }
 
+  // ============ Trace Methods ============
+
+  /**
+   * Trace a mined transaction with debug_traceTransaction.
+   * The callTracer (default) gives the call tree; calls and reverts to contracts
+   * created with contract() or registered with registerAbi() are decoded.
+   *
+   * @example
+   * ```typescript
+   * const token = client.contract(tokenAddress, abi);
+   * const trace = await client.traceTransaction(txHash);
+   * for (const call of trace.calls) {
+   *   console.log(call.decoded?.name, call.gasUsed, call.revert?.message);
+   * }
+   *
+   * const { pre, post } = await client.traceTransaction(txHash, { tracer: 'prestateTracer', diffMode: true });
+   * ```
+   */
+  async traceTransaction(txHash: string, options?: CallTracerOptions): Promise<CallTrace>;
+  async traceTransaction(txHash: string, options: PrestateTracerOptions & { diffMode: true }): Promise<PrestateDiff>;
+  async traceTransaction(txHash: string, options: PrestateTracerOptions): Promise<PrestateTrace>;
+  async traceTransaction(txHash: string, options: TraceOptions = {}): Promise<CallTrace | PrestateTrace | PrestateDiff> {
+    const raw = await this.rpc.traceTransaction(txHash, this._tracerConfig(options));
+    return this._formatTrace(raw, options);
+  }
+
+  /**
+   * Trace a call without sending it, with debug_traceCall
+   *
+   * @example
+   * ```typescript
+   * const trace = await client.traceCall({ from: wallet.address, to: router, data });
+   * if (trace.error) console.log('Would fail:', trace.revert?.message);
+   * ```
+   */
+  async traceCall(tx: TransactionRequest, block?: number | string, options?: CallTracerOptions): Promise<CallTrace>;
+  async traceCall(tx: TransactionRequest, block: number | string, options: PrestateTracerOptions & { diffMode: true }): Promise<PrestateDiff>;
+  async traceCall(tx: TransactionRequest, block: number | string, options: PrestateTracerOptions): Promise<PrestateTrace>;
+  async traceCall(
+    tx: TransactionRequest,
+    block: number | string = 'latest',
+    options: TraceOptions = {}
+  ): Promise<CallTrace | PrestateTrace | PrestateDiff> {
+    const blockTag = typeof block === 'number' ? utils.numberToHex(block) : block;
+    const raw = await this.rpc.traceCall(toRpcTransaction(tx), blockTag, this._tracerConfig(options));
+    return this._formatTrace(raw, options);
+  }
+
+  private _tracerConfig(options: TraceOptions): object {
+    const config: any = { tracer: options.tracer || 'callTracer' };
+    if (options.timeout) config.timeout = options.timeout;
+
+    if (options.tracer === 'prestateTracer') {
+      config.tracerConfig = { diffMode: !!options.diffMode };
+    } else {
+      config.tracerConfig = { onlyTopCall: !!options.onlyTopCall };
+    }
+    return config;
+  }
+
+  private _formatTrace(raw: any, options: TraceOptions): CallTrace | PrestateTrace | PrestateDiff {
+    if (options.tracer !== 'prestateTracer') {
+      return formatCallTrace(raw, this.abis);
+    }
+    if (options.diffMode) {
+      return { pre: formatPrestate(raw.pre), post: formatPrestate(raw.post) };
+    }
+    return formatPrestate(raw);
+  }
+
   // ============ WebSocket Subscriptions ============
 
   /**
@@ -452,9 +828,86 @@ export class NanoPy {
 // ============ Exports ============
 
 export { Wallet } from './wallet';
+export {
+  HDNode,
+  DEFAULT_DERIVATION_PATH,
+  accountPath,
+  generateMnemonic,
+  entropyToMnemonic,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  validateMnemonic
+} from './mnemonic';
+export {
+  hashTypedData,
+  hashStruct,
+  hashDomain,
+  encodeType,
+  typeHash,
+  getPrimaryType,
+  getDomainType,
+  buildTypedData
+} from './eip712';
+export {
+  hashMessage,
+  splitSignature,
+  joinSignature,
+  toCompactSignature,
+  recoverPublicKey,
+  recoverAddress,
+  verifyMessage,
+  verifyTypedData
+} from './signature';
+export {
+  serializeTransaction,
+  parseTransaction,
+  transactionSigningHash,
+  getTransactionType,
+  toRpcTransaction
+} from './transaction';
+export { encryptKeystore, decryptKeystore, isKeystore } from './keystore';
 export { RPCClient } from './rpc';
+export { FallbackProvider } from './fallback';
+export { RPCCache, LRUCache } from './cache';
+export { RateLimiter } from './limiter';
+export { GasOracle } from './gas';
+export { formatCallTrace, formatPrestate, findFailedCalls } from './trace';
+export { HttpTransport } from './transport';
+export { MockProvider, MockRpcError } from './mock';
+export { RecordingTransport, ReplayTransport } from './replay';
+export { createFormatters, formatBlock, formatTransaction, formatReceipt, formatLog } from './formatter';
+export { NonceManager } from './nonce';
+export { TransactionResponse } from './response';
 export { WSClient } from './ws';
 export { Contract, ContractMethod, EventDecoder } from './contract';
+export { decodeRevertData, getRevertData, PANIC_CODES } from './revert';
+export {
+  NanoPyError,
+  RpcError,
+  TimeoutError,
+  NetworkError,
+  InsufficientFundsError,
+  NonceError,
+  UserRejectedError,
+  CallRevertedError,
+  TransactionRevertedError,
+  InvalidPasswordError,
+  TransactionReplacedError,
+  ReplayMismatchError,
+  createRpcError
+} from './errors';
+export type { ErrorCode, ReplacementReason } from './errors';
+export {
+  encodeParameters,
+  decodeParameters,
+  encodeParameter,
+  decodeParameter,
+  formatType,
+  isDynamicType,
+  parseAbi,
+  parseAbiItem,
+  formatAbiItem
+} from './abi';
 export { ERC20 } from './erc20';
 export { ERC721 } from './erc721';
 export {
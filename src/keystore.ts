@@ -0,0 +1,190 @@
+/**
+ * NanoPy SDK Keystore
+ * Encrypted JSON keystore (Web3 Secret Storage v3), compatible with geth and MetaMask
+ */
+
+import { keccak256 } from 'js-sha3';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { KeystoreV3, EncryptOptions, ScryptParams, Pbkdf2Params } from './types';
+import { bytesToHex, getWebCrypto, hexToBytes, randomBytes } from './utils';
+import { InvalidPasswordError } from './errors';
+
+const DEFAULT_SCRYPT_N = 262144;
+const DEFAULT_SCRYPT_R = 8;
+const DEFAULT_SCRYPT_P = 1;
+const DEFAULT_PBKDF2_C = 262144;
+const DKLEN = 32;
+
+/**
+ * Encrypt private key into v3 keystore
+ * @param privateKey - Private key hex
+ * @param address - Address of the key
+ * @param password - Encryption password
+ * @param options - KDF and cipher options
+ * @returns Keystore object
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  address: string,
+  password: string,
+  options: EncryptOptions = {}
+): Promise<KeystoreV3> {
+  const kdf = options.kdf || 'scrypt';
+  const salt = toBytes(options.salt) || randomBytes(32);
+  const iv = toBytes(options.iv) || randomBytes(16);
+  if (iv.length !== 16) {
+    throw new Error(`Invalid IV length: ${iv.length} bytes`);
+  }
+
+  const kdfparams: ScryptParams | Pbkdf2Params = kdf === 'scrypt'
+    ? {
+      dklen: DKLEN,
+      salt: strip0x(bytesToHex(salt)),
+      n: options.n || DEFAULT_SCRYPT_N,
+      r: options.r || DEFAULT_SCRYPT_R,
+      p: options.p || DEFAULT_SCRYPT_P
+    }
+    : {
+      dklen: DKLEN,
+      salt: strip0x(bytesToHex(salt)),
+      c: options.c || DEFAULT_PBKDF2_C,
+      prf: 'hmac-sha256'
+    };
+
+  const derivedKey = await deriveKey(password, kdf, kdfparams);
+
+  const ciphertext = await aes128Ctr('encrypt', derivedKey.slice(0, 16), iv, hexToBytes(strip0x(privateKey)));
+
+  return {
+    version: 3,
+    id: options.uuid || uuidV4(),
+    address: strip0x(address).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      ciphertext: strip0x(bytesToHex(ciphertext)),
+      cipherparams: { iv: strip0x(bytesToHex(iv)) },
+      kdf,
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext)
+    }
+  };
+}
+
+/**
+ * Decrypt v3 keystore
+ * @param json - Keystore JSON string or object
+ * @param password - Decryption password
+ * @returns Private key hex with 0x prefix
+ */
+export async function decryptKeystore(json: string | KeystoreV3, password: string): Promise<string> {
+  const keystore = typeof json === 'string' ? JSON.parse(json) : json;
+
+  if (keystore.version !== 3) {
+    throw new Error(`Unsupported keystore version: ${keystore.version}`);
+  }
+
+  // Some wallets (MyEtherWallet) use capitalized "Crypto"
+  const crypto = keystore.crypto || keystore.Crypto;
+  if (!crypto) {
+    throw new Error('Invalid keystore: missing crypto section');
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported cipher: ${crypto.cipher}`);
+  }
+
+  const derivedKey = await deriveKey(password, crypto.kdf, crypto.kdfparams);
+  const ciphertext = hexToBytes(strip0x(crypto.ciphertext));
+
+  if (computeMac(derivedKey, ciphertext) !== strip0x(crypto.mac).toLowerCase()) {
+    throw new InvalidPasswordError();
+  }
+
+  const privateKey = await aes128Ctr(
+    'decrypt',
+    derivedKey.slice(0, 16),
+    hexToBytes(strip0x(crypto.cipherparams.iv)),
+    ciphertext
+  );
+
+  return bytesToHex(privateKey);
+}
+
+/**
+ * Check if object looks like a v3 keystore
+ */
+export function isKeystore(json: string | object): boolean {
+  try {
+    const data: any = typeof json === 'string' ? JSON.parse(json) : json;
+    return data.version === 3 && !!(data.crypto || data.Crypto);
+  } catch {
+    return false;
+  }
+}
+
+async function deriveKey(
+  password: string,
+  kdf: string,
+  params: ScryptParams | Pbkdf2Params
+): Promise<Uint8Array> {
+  const passwordBytes = new TextEncoder().encode(password.normalize('NFKC'));
+  const salt = new Uint8Array(hexToBytes(strip0x(params.salt)));
+
+  if (kdf === 'scrypt') {
+    const { n, r, p, dklen } = params as ScryptParams;
+    return scryptAsync(passwordBytes, salt, { N: n, r, p, dkLen: dklen, maxmem: 128 * r * (n + p + 2) + 1024 * 1024 });
+  }
+
+  if (kdf === 'pbkdf2') {
+    const { c, dklen, prf } = params as Pbkdf2Params;
+    if (prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported pbkdf2 prf: ${prf}`);
+    }
+    const subtle = (await getWebCrypto()).subtle;
+    const key = await subtle.importKey('raw', passwordBytes, 'PBKDF2', false, ['deriveBits']);
+    const bits = await subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: c }, key, dklen * 8);
+    return new Uint8Array(bits);
+  }
+
+  throw new Error(`Unsupported KDF: ${kdf}`);
+}
+
+async function aes128Ctr(
+  mode: 'encrypt' | 'decrypt',
+  keyBytes: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  const subtle = (await getWebCrypto()).subtle;
+  const key = await subtle.importKey('raw', new Uint8Array(keyBytes), 'AES-CTR', false, [mode]);
+  // Whole 16-byte IV is the counter block
+  const algorithm = { name: 'AES-CTR', counter: new Uint8Array(iv), length: 128 };
+  const result = mode === 'encrypt'
+    ? await subtle.encrypt(algorithm, key, new Uint8Array(data))
+    : await subtle.decrypt(algorithm, key, new Uint8Array(data));
+  return new Uint8Array(result);
+}
+
+function computeMac(derivedKey: Uint8Array, ciphertext: Uint8Array): string {
+  const data = new Uint8Array(16 + ciphertext.length);
+  data.set(derivedKey.slice(16, 32));
+  data.set(ciphertext, 16);
+  return keccak256(data);
+}
+
+function uuidV4(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = strip0x(bytesToHex(bytes));
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function toBytes(value?: string | Uint8Array): Uint8Array | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? hexToBytes(value) : value;
+}
+
+function strip0x(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
@@ -0,0 +1,127 @@
+/**
+ * NanoPy SDK Rate Limiter
+ * Concurrency limit and token bucket for outgoing requests, with backoff when throttled
+ */
+
+import { RateLimitOptions } from './types';
+
+/**
+ * Schedules requests in FIFO order within a concurrency limit and a
+ * requests-per-second budget. Dispatching pauses when the node throttles.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ maxConcurrent: 4, requestsPerSecond: 10 });
+ * const results = await Promise.all(ids.map(id => limiter.schedule(() => fetchItem(id))));
+ * ```
+ */
+export class RateLimiter {
+  private maxConcurrent: number;
+  private rate: number | null;
+  private burst: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private active: number = 0;
+  private queue: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pausedUntil: number = 0;
+  private throttles: number = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.rate = options.requestsPerSecond ?? null;
+    this.burst = options.burst ?? Math.max(1, this.rate ?? 1);
+    this.tokens = this.burst;
+
+    if (this.maxConcurrent < 1) {
+      throw new Error('maxConcurrent must be at least 1');
+    }
+    if (this.rate !== null && this.rate <= 0) {
+      throw new Error('requestsPerSecond must be positive');
+    }
+  }
+
+  /**
+   * Run task once a slot and a token are available (in order of scheduling)
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push(() => {
+        this.active++;
+        task().then(resolve, reject).finally(() => {
+          this.active--;
+          this.drain();
+        });
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop dispatching after the node throttled us
+   * @param retryAfter - Delay in ms requested by the node (Retry-After); doubles per
+   * consecutive throttle from 1s when not given
+   */
+  throttle(retryAfter?: number): void {
+    this.throttles++;
+    const delay = retryAfter ?? Math.min(30000, 1000 * 2 ** (this.throttles - 1));
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+  }
+
+  /**
+   * Reset throttle backoff after a successful request
+   */
+  recover(): void {
+    this.throttles = 0;
+  }
+
+  /**
+   * Requests waiting to be dispatched
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Requests currently in flight
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const wait = this.waitTime();
+      if (wait > 0) {
+        if (!this.timer) {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.drain();
+          }, wait);
+        }
+        return;
+      }
+      if (this.rate !== null) {
+        this.tokens -= 1;
+      }
+      this.queue.shift()!();
+    }
+  }
+
+  /**
+   * Time in ms until the next request may be dispatched
+   */
+  private waitTime(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (this.rate === null) {
+      return 0;
+    }
+
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * NanoPy SDK Mnemonic & HD Keys
+ * BIP-39 mnemonic phrases and BIP-32/44 hierarchical deterministic derivation
+ */
+
+import * as secp256k1 from 'secp256k1';
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { ENGLISH_WORDLIST } from './wordlist';
+import { bytesToHex, hexToBytes, randomBytes } from './utils';
+
+/**
+ * Default Ethereum derivation path (MetaMask compatible), account index appended
+ */
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+const HARDENED_OFFSET = 0x80000000;
+
+// ============ BIP-39 ============
+
+/**
+ * Generate a new random mnemonic phrase
+ * @param words - Number of words (12, 15, 18, 21 or 24)
+ * @returns Space separated mnemonic phrase
+ */
+export function generateMnemonic(words: 12 | 15 | 18 | 21 | 24 = 12): string {
+  if (![12, 15, 18, 21, 24].includes(words)) {
+    throw new Error(`Invalid mnemonic length: ${words} words`);
+  }
+  const strength = (words / 3) * 32;
+  return entropyToMnemonic(randomBytes(strength / 8));
+}
+
+/**
+ * Convert entropy to mnemonic phrase
+ * @param entropy - 16 to 32 bytes of entropy (multiple of 4)
+ * @returns Mnemonic phrase
+ */
+export function entropyToMnemonic(entropy: string | Uint8Array): string {
+  const bytes = typeof entropy === 'string' ? hexToBytes(entropy) : entropy;
+  if (bytes.length < 16 || bytes.length > 32 || bytes.length % 4 !== 0) {
+    throw new Error(`Invalid entropy length: ${bytes.length} bytes`);
+  }
+
+  const entropyBits = toBits(bytes);
+  const checksumBits = toBits(sha256(bytes)).slice(0, bytes.length / 4);
+  const bits = entropyBits + checksumBits;
+
+  const words: string[] = [];
+  for (let i = 0; i < bits.length; i += 11) {
+    words.push(ENGLISH_WORDLIST[parseInt(bits.slice(i, i + 11), 2)]);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Convert mnemonic phrase back to its entropy
+ * @param mnemonic - Mnemonic phrase
+ * @returns Entropy as hex string
+ */
+export function mnemonicToEntropy(mnemonic: string): string {
+  const words = normalizeMnemonic(mnemonic).split(' ');
+  if (words.length % 3 !== 0 || words.length < 12 || words.length > 24) {
+    throw new Error(`Invalid mnemonic length: ${words.length} words`);
+  }
+
+  let bits = '';
+  for (const word of words) {
+    const index = ENGLISH_WORDLIST.indexOf(word);
+    if (index === -1) {
+      throw new Error(`Invalid mnemonic word: ${word}`);
+    }
+    bits += index.toString(2).padStart(11, '0');
+  }
+
+  const checksumLength = bits.length / 33;
+  const entropyBits = bits.slice(0, bits.length - checksumLength);
+  const checksumBits = bits.slice(bits.length - checksumLength);
+
+  const entropy = new Uint8Array(entropyBits.length / 8);
+  for (let i = 0; i < entropy.length; i++) {
+    entropy[i] = parseInt(entropyBits.slice(i * 8, i * 8 + 8), 2);
+  }
+
+  if (toBits(sha256(entropy)).slice(0, checksumLength) !== checksumBits) {
+    throw new Error('Invalid mnemonic checksum');
+  }
+
+  return bytesToHex(entropy);
+}
+
+/**
+ * Check if mnemonic phrase is valid (wordlist and checksum)
+ * @param mnemonic - Mnemonic phrase
+ * @returns True if valid
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  try {
+    mnemonicToEntropy(mnemonic);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive BIP-39 seed from mnemonic
+ * @param mnemonic - Mnemonic phrase
+ * @param passphrase - Optional passphrase ("25th word")
+ * @returns 64-byte seed
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Uint8Array {
+  const normalized = normalizeMnemonic(mnemonic);
+  const salt = 'mnemonic' + passphrase.normalize('NFKD');
+  return pbkdf2(sha512, normalized, salt, { c: 2048, dkLen: 64 });
+}
+
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+function toBits(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(2).padStart(8, '0')).join('');
+}
+
+// ============ BIP-32 ============
+
+/**
+ * BIP-32 hierarchical deterministic key node
+ *
+ * @example
+ * ```typescript
+ * const seed = mnemonicToSeed(mnemonic);
+ * const node = HDNode.fromSeed(seed).derivePath("m/44'/60'/0'/0/0");
+ * const wallet = new Wallet(node.privateKey);
+ * ```
+ */
+export class HDNode {
+  readonly privateKey: string;
+  readonly publicKey: string;
+  readonly chainCode: string;
+  readonly depth: number;
+  readonly index: number;
+  readonly path: string;
+
+  private constructor(
+    privateKey: Uint8Array,
+    chainCode: Uint8Array,
+    depth: number,
+    index: number,
+    path: string
+  ) {
+    this.privateKey = bytesToHex(privateKey);
+    this.publicKey = bytesToHex(secp256k1.publicKeyCreate(privateKey, true));
+    this.chainCode = bytesToHex(chainCode);
+    this.depth = depth;
+    this.index = index;
+    this.path = path;
+  }
+
+  /**
+   * Create master node from seed
+   * @param seed - BIP-39 seed (16 to 64 bytes)
+   */
+  static fromSeed(seed: string | Uint8Array): HDNode {
+    const seedBytes = typeof seed === 'string' ? hexToBytes(seed) : seed;
+    if (seedBytes.length < 16 || seedBytes.length > 64) {
+      throw new Error(`Invalid seed length: ${seedBytes.length} bytes`);
+    }
+
+    const I = hmacSha512(new TextEncoder().encode('Bitcoin seed'), seedBytes);
+    const key = I.slice(0, 32);
+    if (!secp256k1.privateKeyVerify(key)) {
+      throw new Error('Invalid master key derived from seed');
+    }
+
+    return new HDNode(key, I.slice(32), 0, 0, 'm');
+  }
+
+  /**
+   * Create master node from mnemonic
+   * @param mnemonic - Mnemonic phrase (checksum verified)
+   * @param passphrase - Optional passphrase
+   */
+  static fromMnemonic(mnemonic: string, passphrase: string = ''): HDNode {
+    mnemonicToEntropy(mnemonic);
+    return HDNode.fromSeed(mnemonicToSeed(mnemonic, passphrase));
+  }
+
+  /**
+   * Derive child node
+   * @param index - Child index (add 0x80000000 for hardened)
+   */
+  deriveChild(index: number): HDNode {
+    if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+      throw new Error(`Invalid child index: ${index}`);
+    }
+
+    const hardened = index >= HARDENED_OFFSET;
+    const privateKey = hexToBytes(this.privateKey);
+
+    const data = new Uint8Array(37);
+    if (hardened) {
+      data.set(privateKey, 1);
+    } else {
+      data.set(hexToBytes(this.publicKey), 0);
+    }
+    new DataView(data.buffer).setUint32(33, index);
+
+    const I = hmacSha512(hexToBytes(this.chainCode), data);
+    const tweak = I.slice(0, 32);
+    if (!secp256k1.privateKeyVerify(tweak)) {
+      throw new Error(`Invalid child key at index ${index}, use the next index`);
+    }
+
+    const childKey = secp256k1.privateKeyTweakAdd(new Uint8Array(privateKey), tweak);
+    const segment = hardened ? `${index - HARDENED_OFFSET}'` : `${index}`;
+
+    return new HDNode(childKey, I.slice(32), this.depth + 1, index, `${this.path}/${segment}`);
+  }
+
+  /**
+   * Derive node along path
+   * @param path - Derivation path (e.g., "m/44'/60'/0'/0/0")
+   */
+  derivePath(path: string): HDNode {
+    const segments = path.trim().split('/');
+    if (segments[0] === 'm') {
+      if (this.depth !== 0) {
+        throw new Error('Absolute path can only be derived from master node');
+      }
+      segments.shift();
+    }
+
+    let node: HDNode = this;
+    for (const segment of segments) {
+      const match = /^(\d+)(['hH]?)$/.exec(segment);
+      if (!match) {
+        throw new Error(`Invalid derivation path segment: ${segment}`);
+      }
+      const index = parseInt(match[1], 10);
+      if (index >= HARDENED_OFFSET) {
+        throw new Error(`Invalid derivation path index: ${segment}`);
+      }
+      node = node.deriveChild(match[2] ? index + HARDENED_OFFSET : index);
+    }
+
+    return node;
+  }
+}
+
+/**
+ * Build account path for given index
+ * @param index - Account index
+ * @param basePath - Path prefix (default: m/44'/60'/0'/0)
+ */
+export function accountPath(index: number, basePath: string = "m/44'/60'/0'/0"): string {
+  return `${basePath}/${index}`;
+}
+
+function hmacSha512(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return hmac(sha512, key, data);
+}
+
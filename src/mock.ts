@@ -0,0 +1,483 @@
+/**
+ * NanoPy SDK Mock Provider
+ * In-memory JSON-RPC node for unit tests: scripted responses, account state and call assertions
+ */
+
+import { keccak256 } from 'js-sha3';
+import * as rlp from 'rlp';
+import { RPCRequest, RPCResponse, Transport, MockCall, MockProviderOptions, ParsedTransaction } from './types';
+import { parseTransaction } from './transaction';
+import { hexToBytes, numberToHex, toChecksumAddress } from './utils';
+
+type MockHandler = (params: any[], call: MockCall) => any;
+type ParamsMatcher = any[] | ((params: any[]) => boolean);
+
+interface ScriptedResponse {
+  matcher?: ParamsMatcher;
+  handler?: MockHandler;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+  once: boolean;
+}
+
+interface Account {
+  balance: bigint;
+  nonce: number;
+  code: string;
+}
+
+/**
+ * Error thrown from a mock handler to answer with a JSON-RPC error
+ */
+export class MockRpcError extends Error {
+  readonly code: number;
+  readonly data?: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.name = 'MockRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * In-memory node for tests. Answers common `eth_*` methods from a simple account
+ * state and mines each raw transaction into its own block with a receipt.
+ * Scripted responses take precedence over the built-in behaviour.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockProvider({ accounts: { [wallet.address]: toWei('10') } });
+ * mock.on('eth_call', '0x' + '0'.repeat(63) + '1', [{ to: tokenAddress }]);
+ *
+ * const client = new NanoPy(NETWORKS.local, { transport: mock });
+ * await client.send(wallet, recipient, '1');
+ *
+ * mock.assertCalled('eth_sendRawTransaction');
+ * console.log(mock.getBalance(recipient)); // 1000000000000000000n
+ * ```
+ */
+export class MockProvider implements Transport {
+  /** Every request received, in order */
+  readonly calls: MockCall[] = [];
+  chainId: number;
+  gasPrice: bigint;
+  baseFeePerGas: bigint;
+  private responses: Map<string, ScriptedResponse[]> = new Map();
+  private accounts: Map<string, Account> = new Map();
+  private blocks: any[] = [];
+  private transactions: Map<string, any> = new Map();
+  private receipts: Map<string, any> = new Map();
+
+  constructor(options: MockProviderOptions = {}) {
+    this.chainId = options.chainId ?? 1337;
+    this.gasPrice = BigInt(options.gasPrice ?? 1000000000n);
+    this.baseFeePerGas = BigInt(options.baseFeePerGas ?? 1000000000n);
+
+    for (const [address, balance] of Object.entries(options.accounts || {})) {
+      this.setBalance(address, balance);
+    }
+    this.blocks.push(this.createBlock([], 0));
+  }
+
+  // ============ Scripting ============
+
+  /**
+   * Answer method with a result, or a handler computing it from the params
+   * @param matcher - Params to match (partial, case-insensitive; undefined matches anything) or predicate
+   */
+  on(method: string, response: any, matcher?: ParamsMatcher): this {
+    return this.script(method, response, matcher, false);
+  }
+
+  /**
+   * Like on(), for the next matching call only
+   */
+  once(method: string, response: any, matcher?: ParamsMatcher): this {
+    return this.script(method, response, matcher, true);
+  }
+
+  /**
+   * Answer method with a JSON-RPC error
+   *
+   * @example
+   * ```typescript
+   * mock.fail('eth_sendRawTransaction', { code: -32000, message: 'insufficient funds for gas * price + value' });
+   * ```
+   */
+  fail(method: string, error: { code: number; message: string; data?: any }, matcher?: ParamsMatcher, once: boolean = false): this {
+    this.push(method, { matcher, error, once });
+    return this;
+  }
+
+  // ============ State ============
+
+  setBalance(address: string, balance: bigint | string | number): this {
+    this.account(address).balance = BigInt(balance);
+    return this;
+  }
+
+  setNonce(address: string, nonce: number): this {
+    this.account(address).nonce = nonce;
+    return this;
+  }
+
+  setCode(address: string, code: string): this {
+    this.account(address).code = code;
+    return this;
+  }
+
+  getBalance(address: string): bigint {
+    return this.account(address).balance;
+  }
+
+  getNonce(address: string): number {
+    return this.account(address).nonce;
+  }
+
+  /**
+   * Current block number
+   */
+  get blockNumber(): number {
+    return this.blocks.length - 1;
+  }
+
+  /**
+   * Mine empty blocks (e.g. to reach confirmations)
+   */
+  mine(count: number = 1): number {
+    for (let i = 0; i < count; i++) {
+      this.blocks.push(this.createBlock([], 0));
+    }
+    return this.blockNumber;
+  }
+
+  // ============ Assertions ============
+
+  /**
+   * Calls made, optionally filtered by method
+   */
+  getCalls(method?: string): MockCall[] {
+    return method ? this.calls.filter(call => call.method === method) : [...this.calls];
+  }
+
+  /**
+   * Throw unless method was called (with matching params, exactly `times` times if given)
+   */
+  assertCalled(method: string, matcher?: ParamsMatcher, times?: number): void {
+    const matching = this.getCalls(method).filter(call => !matcher || matchParams(matcher, call.params));
+    if (times === undefined ? matching.length === 0 : matching.length !== times) {
+      const expected = times === undefined ? 'at least once' : `${times} time(s)`;
+      const made = this.calls.map(call => `  ${call.method}(${JSON.stringify(call.params)})`).join('\n') || '  (none)';
+      throw new Error(`Expected ${method} to be called ${expected}, got ${matching.length}. Calls:\n${made}`);
+    }
+  }
+
+  /**
+   * Throw if method was called
+   */
+  assertNotCalled(method: string, matcher?: ParamsMatcher): void {
+    this.assertCalled(method, matcher, 0);
+  }
+
+  /**
+   * Forget recorded calls
+   */
+  clearCalls(): void {
+    this.calls.length = 0;
+  }
+
+  /**
+   * Forget calls and scripted responses (account and chain state are kept)
+   */
+  reset(): void {
+    this.clearCalls();
+    this.responses.clear();
+  }
+
+  // ============ Transport ============
+
+  async request(payload: RPCRequest | RPCRequest[]): Promise<RPCResponse | RPCResponse[]> {
+    if (Array.isArray(payload)) {
+      return payload.map(request => this.handle(request));
+    }
+    return this.handle(payload);
+  }
+
+  private handle(request: RPCRequest): RPCResponse {
+    const call: MockCall = { method: request.method, params: request.params || [] };
+    this.calls.push(call);
+
+    try {
+      const scripted = this.findScripted(call);
+      let result: any;
+      if (scripted?.error) {
+        return { jsonrpc: '2.0', id: request.id, error: scripted.error };
+      } else if (scripted) {
+        result = scripted.handler ? scripted.handler(call.params, call) : scripted.result;
+      } else {
+        result = this.builtin(call.method, call.params);
+      }
+      return { jsonrpc: '2.0', id: request.id, result: toJson(result) };
+    } catch (error: any) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: typeof error?.code === 'number' ? error.code : -32603,
+          message: String(error?.message || error),
+          data: error?.data
+        }
+      };
+    }
+  }
+
+  private script(method: string, response: any, matcher: ParamsMatcher | undefined, once: boolean): this {
+    this.push(method, typeof response === 'function'
+      ? { matcher, handler: response, once }
+      : { matcher, result: response, once });
+    return this;
+  }
+
+  private push(method: string, response: ScriptedResponse): void {
+    const list = this.responses.get(method) || [];
+    // Latest script wins
+    list.unshift(response);
+    this.responses.set(method, list);
+  }
+
+  private findScripted(call: MockCall): ScriptedResponse | undefined {
+    const list = this.responses.get(call.method) || [];
+    const index = list.findIndex(r => !r.matcher || matchParams(r.matcher, call.params));
+    if (index === -1) return undefined;
+
+    const response = list[index];
+    if (response.once) list.splice(index, 1);
+    return response;
+  }
+
+  // ============ Built-in Node ============
+
+  private builtin(method: string, params: any[]): any {
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return numberToHex(this.blockNumber);
+      case 'eth_gasPrice':
+        return numberToHex(this.gasPrice);
+      case 'eth_maxPriorityFeePerGas':
+        return numberToHex(this.gasPrice);
+      case 'eth_getBalance':
+        return numberToHex(this.account(params[0]).balance);
+      case 'eth_getTransactionCount':
+        return numberToHex(this.account(params[0]).nonce);
+      case 'eth_getCode':
+        return this.account(params[0]).code;
+      case 'eth_estimateGas':
+        return numberToHex(params[0]?.data && params[0].data !== '0x' ? 100000 : 21000);
+      case 'eth_call':
+        return '0x';
+      case 'eth_getLogs':
+        return [];
+      case 'eth_getBlockByNumber':
+        return this.getBlock(params[0], !!params[1]);
+      case 'eth_getBlockByHash':
+        return this.withTransactions(this.blocks.find(b => b.hash === String(params[0]).toLowerCase()) ?? null, !!params[1]);
+      case 'eth_getTransactionByHash':
+        return this.transactions.get(String(params[0]).toLowerCase()) ?? null;
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(String(params[0]).toLowerCase()) ?? null;
+      case 'eth_sendRawTransaction':
+        return this.sendRawTransaction(params[0]);
+      default:
+        throw new MockRpcError(-32601, `Method ${method} not mocked`);
+    }
+  }
+
+  private getBlock(tag: string, fullTx: boolean): any {
+    let number: number;
+    if (tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized' || tag === undefined) {
+      number = this.blockNumber;
+    } else if (tag === 'earliest') {
+      number = 0;
+    } else {
+      number = Number(BigInt(tag));
+    }
+    return this.withTransactions(this.blocks[number] ?? null, fullTx);
+  }
+
+  private withTransactions(block: any, fullTx: boolean): any {
+    if (!block || !fullTx) return block;
+    return { ...block, transactions: block.transactions.map((hash: string) => this.transactions.get(hash)) };
+  }
+
+  /**
+   * Validate nonce and balance, apply transfer and mine it into a new block
+   */
+  private sendRawTransaction(raw: string): string {
+    const tx = parseTransaction(raw);
+    if (this.transactions.has(tx.hash)) {
+      throw new MockRpcError(-32000, 'already known');
+    }
+
+    const sender = this.account(tx.from);
+    if (tx.nonce < sender.nonce) {
+      throw new MockRpcError(-32000, `nonce too low: next nonce ${sender.nonce}, tx nonce ${tx.nonce}`);
+    }
+    if (tx.nonce > sender.nonce) {
+      throw new MockRpcError(-32000, `nonce too high: next nonce ${sender.nonce}, tx nonce ${tx.nonce}`);
+    }
+
+    const gasPrice = effectiveGasPrice(tx, this.baseFeePerGas);
+    const gasUsed = tx.data && tx.data !== '0x' ? tx.gasLimit : Math.min(tx.gasLimit, 21000);
+    if (sender.balance < tx.value + BigInt(tx.gasLimit) * gasPrice) {
+      throw new MockRpcError(-32000, 'insufficient funds for gas * price + value');
+    }
+
+    let contractAddress: string | null = null;
+    if (tx.to === null) {
+      const encoded = rlp.encode([hexToBytes(tx.from), tx.nonce]);
+      contractAddress = toChecksumAddress('0x' + keccak256(encoded).slice(-40));
+      this.setCode(contractAddress, tx.data);
+    }
+
+    sender.nonce++;
+    sender.balance -= tx.value + BigInt(gasUsed) * gasPrice;
+    if (tx.to) {
+      this.account(tx.to).balance += tx.value;
+    }
+
+    const block = this.createBlock([tx.hash], gasUsed);
+    this.blocks.push(block);
+
+    const location = {
+      blockHash: block.hash,
+      blockNumber: block.number,
+      transactionIndex: '0x0'
+    };
+    this.transactions.set(tx.hash, {
+      hash: tx.hash,
+      ...location,
+      type: numberToHex(tx.type),
+      from: tx.from,
+      to: tx.to,
+      nonce: numberToHex(tx.nonce),
+      value: numberToHex(tx.value),
+      gas: numberToHex(tx.gasLimit),
+      gasPrice: numberToHex(gasPrice),
+      ...(tx.maxFeePerGas !== undefined && {
+        maxFeePerGas: numberToHex(tx.maxFeePerGas),
+        maxPriorityFeePerGas: numberToHex(tx.maxPriorityFeePerGas ?? 0n)
+      }),
+      input: tx.data,
+      chainId: numberToHex(tx.chainId),
+      v: numberToHex(tx.signature.v),
+      r: tx.signature.r,
+      s: tx.signature.s
+    });
+    this.receipts.set(tx.hash, {
+      transactionHash: tx.hash,
+      ...location,
+      from: tx.from,
+      to: tx.to,
+      contractAddress,
+      cumulativeGasUsed: numberToHex(gasUsed),
+      gasUsed: numberToHex(gasUsed),
+      effectiveGasPrice: numberToHex(gasPrice),
+      type: numberToHex(tx.type),
+      logs: [],
+      logsBloom: '0x' + '0'.repeat(512),
+      status: '0x1'
+    });
+
+    return tx.hash;
+  }
+
+  private createBlock(transactions: string[], gasUsed: number): any {
+    const number = this.blocks.length;
+    const parentHash = number > 0 ? this.blocks[number - 1].hash : '0x' + '0'.repeat(64);
+    return {
+      number: numberToHex(number),
+      hash: '0x' + keccak256(`mock-block-${number}-${transactions.join(',')}`),
+      parentHash,
+      nonce: '0x0000000000000000',
+      sha3Uncles: '0x' + '0'.repeat(64),
+      logsBloom: '0x' + '0'.repeat(512),
+      transactionsRoot: '0x' + '0'.repeat(64),
+      stateRoot: '0x' + '0'.repeat(64),
+      receiptsRoot: '0x' + '0'.repeat(64),
+      miner: '0x' + '0'.repeat(40),
+      difficulty: '0x0',
+      totalDifficulty: '0x0',
+      extraData: '0x',
+      size: '0x0',
+      gasLimit: numberToHex(30000000),
+      gasUsed: numberToHex(gasUsed),
+      timestamp: numberToHex(Math.floor(Date.now() / 1000)),
+      baseFeePerGas: numberToHex(this.baseFeePerGas),
+      transactions,
+      uncles: []
+    };
+  }
+
+  private account(address: string): Account {
+    const key = String(address).toLowerCase();
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { balance: 0n, nonce: 0, code: '0x' };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+}
+
+/**
+ * Partial, case-insensitive match (undefined in expected matches anything)
+ */
+function matchParams(matcher: ParamsMatcher, params: any[]): boolean {
+  return typeof matcher === 'function' ? matcher(params) : matches(matcher, params);
+}
+
+function matches(expected: any, actual: any): boolean {
+  if (expected === undefined) return true;
+  if (typeof expected === 'bigint' || typeof expected === 'number') {
+    try {
+      return BigInt(actual) === BigInt(expected);
+    } catch {
+      return false;
+    }
+  }
+  if (typeof expected === 'string') {
+    return typeof actual === 'string' && expected.toLowerCase() === actual.toLowerCase();
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.every((value, i) => matches(value, actual[i]));
+  }
+  if (expected && typeof expected === 'object') {
+    return !!actual && typeof actual === 'object'
+      && Object.keys(expected).every(key => matches(expected[key], actual[key]));
+  }
+  return expected === actual;
+}
+
+/**
+ * Convert handler results to JSON-RPC values (bigint to hex quantities)
+ */
+function toJson(value: any): any {
+  if (typeof value === 'bigint') return numberToHex(value);
+  if (Array.isArray(value)) return value.map(toJson);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJson(v)]));
+  }
+  return value;
+}
+
+function effectiveGasPrice(tx: ParsedTransaction, baseFee: bigint): bigint {
+  if (tx.maxFeePerGas === undefined) return tx.gasPrice ?? 0n;
+  const priority = tx.maxPriorityFeePerGas ?? 0n;
+  return tx.maxFeePerGas < baseFee + priority ? tx.maxFeePerGas : baseFee + priority;
+}
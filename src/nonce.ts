@@ -0,0 +1,135 @@
+/**
+ * NanoPy SDK Nonce Manager
+ * Local per-address nonce tracking for concurrent transaction sending
+ */
+
+import { RPCClient } from './rpc';
+import { hexToNumber } from './utils';
+import { NonceError } from './errors';
+
+/**
+ * Assigns nonces locally so parallel sends from one address don't collide.
+ * The pending transaction count is read once, then incremented locally;
+ * assignment is serialized per address.
+ *
+ * @example
+ * ```typescript
+ * // Used automatically by NanoPy.sendTransaction
+ * await Promise.all(players.map(p => token.transfer(hotWallet, p, '10')));
+ *
+ * // Manual resync after sending from the same key elsewhere
+ * client.nonces.resync(hotWallet.address);
+ * ```
+ */
+export class NonceManager {
+  private rpc: RPCClient;
+  private nonces: Map<string, number> = new Map();
+  private stale: Set<string> = new Set();
+  // Nonces given back below the counter, handed out again before it moves on
+  private released: Map<string, Set<number>> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(rpc: RPCClient) {
+    this.rpc = rpc;
+  }
+
+  /**
+   * Reserve next nonce for address
+   */
+  async next(address: string): Promise<number> {
+    const key = address.toLowerCase();
+
+    return this.lock(key, async () => {
+      let nonce = this.nonces.get(key);
+      const gaps = this.released.get(key);
+
+      if (nonce === undefined || this.stale.has(key)) {
+        const pending = hexToNumber(await this.rpc.getTransactionCount(address, 'pending'));
+        nonce = nonce === undefined ? pending : Math.max(nonce, pending);
+        this.stale.delete(key);
+        // Gaps filled meanwhile (key used elsewhere)
+        gaps?.forEach(gap => {
+          if (gap < pending) gaps.delete(gap);
+        });
+      }
+
+      if (gaps && gaps.size > 0) {
+        const lowest = Math.min(...gaps);
+        gaps.delete(lowest);
+        return lowest;
+      }
+
+      this.nonces.set(key, nonce + 1);
+      return nonce;
+    });
+  }
+
+  /**
+   * Give back a nonce whose transaction was never broadcast (or was rejected).
+   * It is handed out again by the next reservation, so later transactions
+   * don't stay queued behind the gap.
+   */
+  release(address: string, nonce: number): void {
+    const key = address.toLowerCase();
+    const next = this.nonces.get(key);
+    if (next === undefined || nonce >= next) {
+      return;
+    }
+
+    const gaps = this.released.get(key) || new Set<number>();
+    gaps.add(nonce);
+    // Gaps at the top shrink the counter instead
+    let top = next;
+    while (gaps.has(top - 1)) {
+      gaps.delete(top - 1);
+      top--;
+    }
+    this.nonces.set(key, top);
+    this.released.set(key, gaps);
+  }
+
+  /**
+   * Re-read pending count on next use, keeping the higher of local and node value
+   * (after "nonce too low", e.g. when the key is also used elsewhere)
+   */
+  resync(address: string): void {
+    this.stale.add(address.toLowerCase());
+  }
+
+  /**
+   * Forget local state; next nonce comes from the node
+   * (after a dropped or replaced transaction)
+   */
+  reset(address?: string): void {
+    if (address) {
+      const key = address.toLowerCase();
+      this.nonces.delete(key);
+      this.stale.delete(key);
+      this.released.delete(key);
+    } else {
+      this.nonces.clear();
+      this.stale.clear();
+      this.released.clear();
+    }
+  }
+
+  /**
+   * Serialize async work per address
+   */
+  private lock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const result = previous.then(fn, fn);
+    this.queues.set(key, result.catch(() => undefined));
+    return result;
+  }
+}
+
+/**
+ * Check if node error means the nonce was already used
+ */
+export function isNonceError(error: any): boolean {
+  if (error instanceof NonceError) return true;
+  const message = String(error?.message || error).toLowerCase();
+  return message.includes('nonce too low')
+    || message.includes('nonce has already been used');
+}
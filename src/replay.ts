@@ -0,0 +1,375 @@
+/**
+ * NanoPy SDK Record & Replay
+ * Records RPC and WebSocket traffic into fixtures and replays them for deterministic tests
+ */
+
+import {
+  FixtureEntry,
+  RecordOptions,
+  ReplayOptions,
+  RPCFixture,
+  RPCRequest,
+  RPCResponse,
+  Transport,
+  WebSocketConstructor,
+  WebSocketLike
+} from './types';
+import { ReplayMismatchError } from './errors';
+
+// Parameter positions holding passwords or keys
+const SENSITIVE_PARAMS: Record<string, number[]> = {
+  personal_unlockAccount: [1],
+  personal_sendTransaction: [1],
+  personal_signTransaction: [1],
+  personal_sign: [2],
+  personal_importRawKey: [0, 1],
+  personal_newAccount: [0]
+};
+
+// Object fields holding secrets
+const SENSITIVE_KEYS = /password|passphrase|secret|private_?key|api_?key|auth|token/i;
+
+const REDACTED = '[scrubbed]';
+
+/**
+ * Transport that forwards requests and records each one with its response.
+ * Export `fixture` as JSON and replay it with ReplayTransport.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new RecordingTransport(new HttpTransport(NETWORKS.local.rpcUrl), { scrub: true });
+ * const client = new NanoPy(NETWORKS.local, { transport: recorder, webSocket: recorder.webSocket() });
+ *
+ * await client.send(wallet, to, '1');
+ * fs.writeFileSync('fixtures/send.json', JSON.stringify(recorder.fixture, null, 2));
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  private inner: Transport;
+  private scrub: RecordOptions['scrub'];
+  private entries: FixtureEntry[] = [];
+
+  constructor(inner: Transport, options: RecordOptions = {}) {
+    this.inner = inner;
+    this.scrub = options.scrub;
+  }
+
+  async request(payload: RPCRequest | RPCRequest[]): Promise<RPCResponse | RPCResponse[]> {
+    const response = await this.inner.request(payload);
+
+    const requests = Array.isArray(payload) ? payload : [payload];
+    const responses = Array.isArray(response) ? response : [response];
+    for (const request of requests) {
+      const match = responses.find(r => r && r.id === request.id);
+      if (match) {
+        this.entries.push(toEntry(request, match));
+      }
+    }
+    return response;
+  }
+
+  /**
+   * WebSocket implementation that records requests, responses and subscription notifications
+   * @param WebSocketImpl - Underlying implementation (default: global WebSocket)
+   */
+  webSocket(WebSocketImpl: WebSocketConstructor = (globalThis as any).WebSocket): WebSocketConstructor {
+    const entries = this.entries;
+
+    return class RecordingWebSocket implements WebSocketLike {
+      onopen: ((event: any) => void) | null = null;
+      onclose: ((event: any) => void) | null = null;
+      onerror: ((event: any) => void) | null = null;
+      onmessage: ((event: { data: any }) => void) | null = null;
+      private socket: WebSocketLike;
+      private pending: Map<number, RPCRequest> = new Map();
+      private subscriptions: Map<string, FixtureEntry> = new Map();
+
+      constructor(url: string) {
+        this.socket = new WebSocketImpl(url);
+        this.socket.onopen = event => this.onopen?.(event);
+        this.socket.onclose = event => this.onclose?.(event);
+        this.socket.onerror = event => this.onerror?.(event);
+        this.socket.onmessage = event => {
+          this.record(event.data);
+          this.onmessage?.(event);
+        };
+      }
+
+      get readyState(): number {
+        return this.socket.readyState;
+      }
+
+      send(data: string): void {
+        const parsed = JSON.parse(data);
+        for (const request of Array.isArray(parsed) ? parsed : [parsed]) {
+          this.pending.set(request.id, request);
+        }
+        this.socket.send(data);
+      }
+
+      close(): void {
+        this.socket.close();
+      }
+
+      private record(data: any): void {
+        let message: any;
+        try {
+          message = JSON.parse(String(data));
+        } catch {
+          return;
+        }
+
+        for (const item of Array.isArray(message) ? message : [message]) {
+          if (item.method === 'eth_subscription' && item.params) {
+            const entry = this.subscriptions.get(item.params.subscription);
+            if (entry) {
+              (entry.notifications = entry.notifications || []).push(item.params.result);
+            }
+            continue;
+          }
+
+          const request = this.pending.get(item.id);
+          if (!request) continue;
+          this.pending.delete(item.id);
+
+          const entry = toEntry(request, item);
+          entries.push(entry);
+          if (request.method === 'eth_subscribe' && typeof item.result === 'string') {
+            this.subscriptions.set(item.result, entry);
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Recorded traffic (scrubbed if enabled)
+   */
+  get fixture(): RPCFixture {
+    return {
+      version: 1,
+      entries: this.entries.map(entry => applyScrub(clone(entry), this.scrub))
+    };
+  }
+}
+
+/**
+ * Transport answering requests from a recorded fixture. Requests are matched by
+ * method and normalized params (hex case, key order); repeated requests get the
+ * recorded responses in order.
+ *
+ * @example
+ * ```typescript
+ * const replay = new ReplayTransport(JSON.parse(fs.readFileSync('fixtures/send.json', 'utf8')), { scrub: true });
+ * const client = new NanoPy(NETWORKS.local, { transport: replay, webSocket: replay.webSocket() });
+ *
+ * await client.send(wallet, to, '1');
+ * replay.assertDone();
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  private strict: boolean;
+  private scrub: RecordOptions['scrub'];
+  private queues: Map<string, FixtureEntry[]> = new Map();
+  private used: Map<string, FixtureEntry> = new Map();
+  private recorded: FixtureEntry[];
+
+  constructor(fixture: RPCFixture, options: ReplayOptions = {}) {
+    if (fixture?.version !== 1 || !Array.isArray(fixture.entries)) {
+      throw new Error('Unsupported fixture format');
+    }
+    this.strict = options.strict ?? true;
+    this.scrub = options.scrub;
+    this.recorded = fixture.entries;
+
+    for (const entry of fixture.entries) {
+      const key = requestKey(entry.method, entry.params);
+      const queue = this.queues.get(key) || [];
+      queue.push(entry);
+      this.queues.set(key, queue);
+    }
+  }
+
+  async request(payload: RPCRequest | RPCRequest[]): Promise<RPCResponse | RPCResponse[]> {
+    if (Array.isArray(payload)) {
+      return payload.map(request => this.respond(request, this.take(request)));
+    }
+    return this.respond(payload, this.take(payload));
+  }
+
+  /**
+   * WebSocket implementation answering from the fixture; recorded subscription
+   * notifications are delivered after the eth_subscribe response
+   */
+  webSocket(): WebSocketConstructor {
+    const replay = this;
+
+    return class ReplayWebSocket implements WebSocketLike {
+      readyState: number = 0;
+      onopen: ((event: any) => void) | null = null;
+      onclose: ((event: any) => void) | null = null;
+      onerror: ((event: any) => void) | null = null;
+      onmessage: ((event: { data: any }) => void) | null = null;
+
+      constructor(_url: string) {
+        setTimeout(() => {
+          this.readyState = 1;
+          this.onopen?.({});
+        }, 0);
+      }
+
+      send(data: string): void {
+        const parsed = JSON.parse(data);
+        for (const request of Array.isArray(parsed) ? parsed : [parsed]) {
+          const entry = replay.take(request);
+          const response = replay.respond(request, entry);
+
+          setTimeout(() => this.emit(response), 0);
+          // After the client has registered the subscription
+          setTimeout(() => {
+            for (const result of entry.notifications || []) {
+              this.emit({ jsonrpc: '2.0', method: 'eth_subscription', params: { subscription: entry.result, result } });
+            }
+          }, 1);
+        }
+      }
+
+      close(): void {
+        this.readyState = 3;
+        setTimeout(() => this.onclose?.({}), 0);
+      }
+
+      private emit(message: unknown): void {
+        if (this.readyState === 1) {
+          this.onmessage?.({ data: JSON.stringify(message) });
+        }
+      }
+    };
+  }
+
+  /**
+   * Recorded entries that were never requested
+   */
+  get remaining(): FixtureEntry[] {
+    return [...this.queues.values()].flat();
+  }
+
+  /**
+   * Throw if recorded requests were not made (strict replay)
+   */
+  assertDone(): void {
+    const remaining = this.remaining;
+    if (remaining.length > 0) {
+      const list = remaining.map(e => `  ${e.method}(${JSON.stringify(e.params)})`).join('\n');
+      throw new Error(`${remaining.length} recorded request(s) were not replayed:\n${list}`);
+    }
+  }
+
+  /**
+   * Next recorded entry for request
+   */
+  private take(request: RPCRequest): FixtureEntry {
+    const params = applyScrub({ method: request.method, params: request.params || [] }, this.scrub).params;
+    const key = requestKey(request.method, params);
+    const queue = this.queues.get(key);
+
+    if (queue && queue.length > 0) {
+      const entry = queue.shift()!;
+      if (queue.length === 0) this.queues.delete(key);
+      this.used.set(key, entry);
+      return entry;
+    }
+
+    const last = this.used.get(key);
+    if (last && !this.strict) {
+      return last;
+    }
+
+    if (last) {
+      throw new ReplayMismatchError(
+        `All recorded responses for ${request.method}(${JSON.stringify(params)}) were already used`,
+        request.method,
+        params
+      );
+    }
+
+    const candidates = this.recorded
+      .filter(e => e.method === request.method)
+      .map(e => `  ${JSON.stringify(e.params)}`);
+    const hint = candidates.length > 0
+      ? `Recorded params for ${request.method}:\n${candidates.join('\n')}`
+      : `${request.method} was never recorded`;
+    throw new ReplayMismatchError(
+      `No recorded response for ${request.method}(${JSON.stringify(params)}). ${hint}`,
+      request.method,
+      params
+    );
+  }
+
+  private respond(request: RPCRequest, entry: FixtureEntry): RPCResponse {
+    return entry.error
+      ? { jsonrpc: '2.0', id: request.id, error: entry.error }
+      : { jsonrpc: '2.0', id: request.id, result: entry.result };
+  }
+}
+
+/**
+ * Matching key: method and params with lowercase hex, sorted keys and no undefined fields
+ */
+function requestKey(method: string, params: any[]): string {
+  return `${method}:${JSON.stringify(normalize(params ?? []))}`;
+}
+
+function normalize(value: any): any {
+  if (typeof value === 'string') {
+    return /^0x[0-9a-fA-F]*$/.test(value) ? value.toLowerCase() : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] !== undefined) result[key] = normalize(value[key]);
+    }
+    return result;
+  }
+  return value;
+}
+
+function toEntry(request: RPCRequest, response: RPCResponse): FixtureEntry {
+  const entry: FixtureEntry = { method: request.method, params: request.params || [] };
+  if (response.error) {
+    entry.error = response.error;
+  } else {
+    entry.result = response.result;
+  }
+  return entry;
+}
+
+function applyScrub(entry: FixtureEntry, scrub: RecordOptions['scrub']): FixtureEntry {
+  if (!scrub) return entry;
+
+  const positions = SENSITIVE_PARAMS[entry.method] || [];
+  const scrubbed: FixtureEntry = {
+    ...entry,
+    params: entry.params.map((param, i) => positions.includes(i) ? REDACTED : redactKeys(param))
+  };
+  return typeof scrub === 'function' ? scrub(scrubbed) : scrubbed;
+}
+
+function redactKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redactKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) =>
+      [key, SENSITIVE_KEYS.test(key) ? REDACTED : redactKeys(v)]
+    ));
+  }
+  return value;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
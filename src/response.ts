@@ -0,0 +1,212 @@
+/**
+ * NanoPy SDK Transaction Response
+ * Non-blocking handle for a broadcast transaction: wait, speed up, cancel
+ */
+
+import type { NanoPy } from './index';
+import { RPCClient } from './rpc';
+import { Signer, TransactionReceipt, TransactionRequest } from './types';
+import { hexToNumber, numberToHex, sleep } from './utils';
+import { NanoPyError, ReplacementReason, TimeoutError, TransactionReplacedError } from './errors';
+
+/**
+ * Broadcast transaction, returned before it is mined
+ *
+ * @example
+ * ```typescript
+ * const tx = await client.submitTransaction(wallet, { to, value: '0x1' });
+ * showPending(tx.hash);
+ *
+ * const faster = await tx.speedUp(20); // +20% fees, same nonce
+ * const receipt = await faster.wait(2, 120000);
+ * ```
+ */
+export class TransactionResponse {
+  readonly hash: string;
+  readonly from: string;
+  readonly request: TransactionRequest;
+  private client: NanoPy;
+  private signer: Signer;
+  private _nonce?: number;
+  private replacements: Array<{ hash: string; reason: ReplacementReason }>;
+
+  constructor(
+    client: NanoPy,
+    signer: Signer,
+    hash: string,
+    from: string,
+    request: TransactionRequest,
+    replacements: Array<{ hash: string; reason: ReplacementReason }> = []
+  ) {
+    this.client = client;
+    this.signer = signer;
+    this.hash = hash;
+    this.from = from;
+    this.request = request;
+    this._nonce = request.nonce;
+    this.replacements = replacements;
+  }
+
+  private get rpc(): RPCClient {
+    return this.client.rpc;
+  }
+
+  /**
+   * Transaction nonce (looked up on the node for send-only signers)
+   */
+  async getNonce(): Promise<number> {
+    if (this._nonce === undefined) {
+      const tx = await this.rpc.getTransactionByHash(this.hash);
+      if (!tx) {
+        throw new NanoPyError(`Transaction ${this.hash} not found`, 'TRANSACTION_NOT_FOUND');
+      }
+      this._nonce = tx.nonce;
+    }
+    return this._nonce;
+  }
+
+  /**
+   * Wait for transaction to be mined
+   * @param confirmations - Number of blocks (default: 1)
+   * @param timeout - Timeout in ms (default: 60000)
+   * @returns Receipt (of the sped-up replacement if this transaction was repriced), also
+   *   when it failed (status 0); client.confirmTransaction throws TransactionRevertedError instead
+   * @throws TransactionReplacedError if cancelled or replaced by an unknown transaction
+   */
+  async wait(confirmations: number = 1, timeout: number = 60000): Promise<TransactionReceipt> {
+    const startTime = Date.now();
+    const pollInterval = this.client.pollingInterval;
+
+    while (Date.now() - startTime < timeout) {
+      const receipt = await this.findReceipt();
+
+      if (receipt) {
+        if (await this.isConfirmed(receipt, confirmations)) {
+          return receipt;
+        }
+      } else if (await this.isNonceUsed()) {
+        return this.handleReplaced(confirmations, timeout - (Date.now() - startTime));
+      }
+
+      await sleep(pollInterval);
+    }
+
+    // Node no longer knows the transaction: it was dropped, free its nonce
+    const known = await this.rpc.getTransactionByHash(this.hash).catch(() => null);
+    if (!known) {
+      this.client.nonces.reset(this.from);
+      throw new NanoPyError(`Transaction ${this.hash} was dropped`, 'TRANSACTION_DROPPED');
+    }
+
+    throw new TimeoutError(`Transaction ${this.hash} not confirmed within ${timeout}ms`);
+  }
+
+  /**
+   * Resubmit with higher fees at the same nonce
+   * @param gasPriceBump - Fee increase in percent (default: 10, the minimum most nodes accept)
+   */
+  async speedUp(gasPriceBump: number = 10): Promise<TransactionResponse> {
+    const fees = await this.bumpedFees(gasPriceBump);
+    return this.replace({ ...this.request, ...fees }, 'repriced');
+  }
+
+  /**
+   * Replace with a zero-value transfer to self at the same nonce
+   * @param gasPriceBump - Fee increase in percent (default: 10)
+   */
+  async cancel(gasPriceBump: number = 10): Promise<TransactionResponse> {
+    const fees = await this.bumpedFees(gasPriceBump);
+    return this.replace({
+      type: this.request.type,
+      to: this.from,
+      value: '0x0',
+      data: '0x',
+      gasLimit: 21000,
+      ...fees
+    }, 'cancelled');
+  }
+
+  private async replace(tx: TransactionRequest, reason: ReplacementReason): Promise<TransactionResponse> {
+    tx.nonce = await this.getNonce();
+    const response: TransactionResponse = await this.client.submitTransaction(this.signer, tx);
+
+    // All responses in the chain share the list, so any of them can resolve the winner
+    this.replacements.push({ hash: response.hash, reason });
+    response.replacements = this.replacements;
+    response.replacements.push({ hash: this.hash, reason: reason === 'repriced' ? 'repriced' : 'replaced' });
+
+    return response;
+  }
+
+  private async bumpedFees(percent: number): Promise<Partial<TransactionRequest>> {
+    const bump = (value: string | bigint) => {
+      const num = BigInt(value);
+      return numberToHex((num * BigInt(100 + Math.ceil(percent)) + 99n) / 100n);
+    };
+
+    if (this.request.maxFeePerGas !== undefined) {
+      return {
+        maxFeePerGas: bump(this.request.maxFeePerGas),
+        maxPriorityFeePerGas: bump(this.request.maxPriorityFeePerGas || 0n)
+      };
+    }
+
+    let gasPrice = this.request.gasPrice;
+    if (gasPrice === undefined) {
+      const tx = await this.rpc.getTransactionByHash(this.hash);
+      gasPrice = tx ? tx.gasPrice : await this.rpc.getGasPrice();
+    }
+    return { gasPrice: bump(gasPrice) };
+  }
+
+  private async findReceipt(): Promise<TransactionReceipt | null> {
+    const receipt = await this.rpc.getTransactionReceipt(this.hash);
+    return receipt && receipt.blockNumber !== null && receipt.blockNumber !== undefined ? receipt : null;
+  }
+
+  private async isConfirmed(receipt: TransactionReceipt, confirmations: number): Promise<boolean> {
+    if (confirmations <= 1) return true;
+
+    const currentBlock = hexToNumber(await this.rpc.getBlockNumber());
+    return currentBlock - receipt.blockNumber + 1 >= confirmations;
+  }
+
+  private async isNonceUsed(): Promise<boolean> {
+    let nonce: number;
+    try {
+      nonce = await this.getNonce();
+    } catch {
+      return false;
+    }
+    const mined = hexToNumber(await this.rpc.getTransactionCount(this.from, 'latest'));
+    return mined > nonce;
+  }
+
+  /**
+   * Nonce was consumed by another transaction: follow a known speed-up, fail otherwise
+   */
+  private async handleReplaced(confirmations: number, timeout: number): Promise<TransactionReceipt> {
+    // Mined between the receipt and nonce checks
+    if (await this.findReceipt()) {
+      return this.wait(confirmations, Math.max(timeout, 0));
+    }
+
+    for (const candidate of this.replacements) {
+      if (candidate.hash === this.hash) continue;
+
+      const receipt = await this.rpc.getTransactionReceipt(candidate.hash);
+      if (!receipt || receipt.blockNumber === null || receipt.blockNumber === undefined) continue;
+
+      if (candidate.reason === 'repriced') {
+        const replacement = new TransactionResponse(
+          this.client, this.signer, candidate.hash, this.from, this.request, this.replacements
+        );
+        return replacement.wait(confirmations, Math.max(timeout, 0));
+      }
+
+      throw new TransactionReplacedError(candidate.reason, this.hash, candidate.hash, receipt);
+    }
+
+    throw new TransactionReplacedError('replaced', this.hash, null, null);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * NanoPy SDK Revert Decoding
+ * Error(string), Panic(uint256) and custom error decoding for reverted calls
+ */
+
+import { keccak256 } from 'js-sha3';
+import { ABI, RevertReason } from './types';
+import { decodeParameters, formatAbiItem } from './abi';
+import { CallRevertedError } from './errors';
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+/**
+ * Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+ */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array encoding',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized internal function'
+};
+
+/**
+ * Decode revert data
+ * @param data - Revert data returned by the node
+ * @param abi - ABI with custom `error` entries
+ * @returns Decoded reason, or null if data is empty or unknown
+ *
+ * @example
+ * ```typescript
+ * decodeRevertData('0x08c379a0...'); // { name: 'Error', args: ['Not owner'], message: 'Not owner', ... }
+ * decodeRevertData('0x4e487b71...0011'); // { name: 'Panic', message: 'Panic 0x11: arithmetic overflow or underflow', ... }
+ * ```
+ */
+export function decodeRevertData(data: string, abi: ABI = []): RevertReason | null {
+  if (!data || data.length < 10) {
+    return null;
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const body = '0x' + data.slice(10);
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = decodeParameters(['string'], body);
+      return { name: 'Error', signature: 'Error(string)', args: [message], message, data };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = decodeParameters(['uint256'], body);
+      const description = PANIC_CODES[Number(code)] || 'unknown panic code';
+      return {
+        name: 'Panic',
+        signature: 'Panic(uint256)',
+        args: [code],
+        message: `Panic 0x${code.toString(16).padStart(2, '0')}: ${description}`,
+        data
+      };
+    }
+
+    for (const item of abi) {
+      if (item.type !== 'error' || !item.name) continue;
+
+      const signature = formatAbiItem(item, 'sighash');
+      if ('0x' + keccak256(signature).slice(0, 8) !== selector) continue;
+
+      const inputs = item.inputs || [];
+      const args = decodeParameters(inputs, body);
+      const formatted = args.map(formatArg).join(', ');
+      return { name: item.name, signature, args, message: `${item.name}(${formatted})`, data };
+    }
+  } catch {
+    // Malformed data, fall through
+  }
+
+  return null;
+}
+
+/**
+ * Extract revert data from node/wallet error
+ * (geth: error.data, some nodes and wallets nest it in error.data.data)
+ * @returns Revert data, '0x' for a revert without data, or null if not a revert
+ */
+export function getRevertData(error: any): string | null {
+  const candidates = [error?.data, error?.data?.data, error?.error?.data, error?.data?.originalError?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && /^0x[0-9a-fA-F]*$/.test(candidate)) {
+      return candidate;
+    }
+  }
+
+  const message = String(error?.message || '').toLowerCase();
+  if (error?.rpcCode === 3 || error?.code === 3 || message.includes('revert')) {
+    return '0x';
+  }
+  return null;
+}
+
+/**
+ * Convert node error to CallRevertedError if it is a revert, otherwise return it unchanged
+ */
+export function toRevertError(error: any, abi: ABI = []): any {
+  if (error instanceof CallRevertedError) {
+    // Decode custom error raised before the ABI was known
+    return error.reason || abi.length === 0
+      ? error
+      : new CallRevertedError(decodeRevertData(error.data, abi), error.data, error.receipt);
+  }
+  const data = getRevertData(error);
+  if (data === null) {
+    return error;
+  }
+  return new CallRevertedError(decodeRevertData(data, abi), data);
+}
+
+function formatArg(value: any): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatArg).join(', ')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.entries(value).map(([k, v]) => `${k}: ${formatArg(v)}`).join(', ')}}`;
+  }
+  return String(value);
+}
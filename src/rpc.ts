@@ -3,78 +3,277 @@
  * HTTP JSON-RPC client for blockchain interaction
  */
 
-import { RPCRequest, RPCResponse, Block, Transaction, TransactionReceipt, Log } from './types';
-import { sleep, hexToNumber } from './utils';
+import { keccak256 } from 'js-sha3';
+import {
+  RPCRequest,
+  RPCResponse,
+  Block,
+  Transaction,
+  TransactionReceipt,
+  Log,
+  RetryOptions,
+  RPCClientOptions,
+  Formatters,
+  Transport
+} from './types';
+import { sleep, hexToNumber, hexToBytes } from './utils';
+import { createRpcError, NetworkError, RpcError, TimeoutError } from './errors';
+import { RPCCache } from './cache';
+import { RateLimiter } from './limiter';
+import { createFormatters } from './formatter';
+import { HttpTransport } from './transport';
+
+// Requests that must not be repeated blindly (a lost response may hide a success)
+const NON_IDEMPOTENT_METHODS = ['eth_sendRawTransaction', 'eth_sendTransaction'];
+
+// JSON-RPC codes for rate limiting (-32005: limit exceeded)
+const RETRYABLE_RPC_CODES = [429, -32005];
+
+interface QueuedRequest {
+  request: RPCRequest;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
 
 export class RPCClient {
-  private url: string;
-  private timeout: number;
+  /** Response cache (null when caching is off) */
+  readonly cache: RPCCache | null;
+  /** Converters applied to block, transaction, receipt and log results */
+  readonly formatters: Formatters;
+  private transport: Transport;
+  private retry: RetryOptions & { retries: number; minDelay: number; maxDelay: number; jitter: boolean };
+  private batching: { wait: number; maxSize: number } | null;
+  private queue: QueuedRequest[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
   private requestId: number = 0;
+  private limiter: RateLimiter | null;
 
-  constructor(url: string, timeout: number = 30000) {
-    this.url = url;
-    this.timeout = timeout;
+  /**
+   * @param url - Node URL
+   * @param options - Timeout, retry policy, batching, caching and rate limit (a number sets the timeout in ms)
+   *
+   * @example
+   * ```typescript
+   * const rpc = new RPCClient('http://localhost:8545', {
+   *   timeout: 10000,
+   *   retry: { retries: 5 },
+   *   batch: { wait: 10, maxSize: 100 },
+   *   cache: { latestTtl: 1000 },
+   *   rateLimit: { maxConcurrent: 4, requestsPerSecond: 10 }
+   * });
+   * ```
+   */
+  constructor(url: string, options: RPCClientOptions | number = {}) {
+    const opts = typeof options === 'number' ? { timeout: options } : options;
+    this.transport = opts.transport || new HttpTransport(url, opts.timeout ?? 30000);
+    this.retry = { retries: 3, minDelay: 250, maxDelay: 10000, jitter: true, ...opts.retry };
+    this.batching = opts.batch
+      ? { wait: 0, maxSize: 50, ...(opts.batch === true ? {} : opts.batch) }
+      : null;
+    this.cache = opts.cache
+      ? new RPCCache(opts.cache === true ? {} : opts.cache)
+      : null;
+    this.limiter = opts.rateLimit ? new RateLimiter(opts.rateLimit) : null;
+    this.formatters = createFormatters(opts.formatters);
   }
 
   /**
    * Make RPC call
+   * Failed requests are retried per the retry policy, except non-idempotent
+   * methods (eth_sendRawTransaction is retried safely by sendRawTransaction).
+   * With batching enabled, calls are merged into batch requests.
+   * With caching enabled, cacheable reads are answered from the cache.
    */
   async call<T = any>(method: string, params: any[] = []): Promise<T> {
-    const request: RPCRequest = {
+    if (this.cache) {
+      return this.cache.wrap(method, params, () => this.execute<T>(method, params));
+    }
+    return this.execute<T>(method, params);
+  }
+
+  /**
+   * Send call to the node (overridden by providers that route requests)
+   */
+  protected async execute<T>(method: string, params: any[]): Promise<T> {
+    if (NON_IDEMPOTENT_METHODS.includes(method)) {
+      return this.send<T>(method, params);
+    }
+    const send = () => this.batching ? this.enqueue<T>(method, params) : this.send<T>(method, params);
+    return this.withRetry(method, send);
+  }
+
+  /**
+   * Batch RPC calls
+   */
+  async batch<T = any>(calls: Array<{ method: string; params?: any[] }>): Promise<T[]> {
+    const requests: RPCRequest[] = calls.map(call => ({
       jsonrpc: '2.0',
       id: ++this.requestId,
-      method,
-      params
-    };
+      method: call.method,
+      params: call.params || []
+    }));
+
+    const send = () => this.postBatch(requests);
+    const responses = calls.some(call => NON_IDEMPOTENT_METHODS.includes(call.method))
+      ? await send()
+      : await this.withRetry('batch', send);
+
+    return requests.map(request => {
+      const response = responses.get(request.id);
+      if (!response) {
+        throw new NetworkError(`No response for batched ${request.method} (id ${request.id})`);
+      }
+      if (response.error) throw createRpcError(response.error);
+      return response.result as T;
+    });
+  }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  /**
+   * Queue call for the next batch
+   */
+  private enqueue<T>(method: string, params: any[]): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const request: RPCRequest = { jsonrpc: '2.0', id: ++this.requestId, method, params };
+      this.queue.push({ request, resolve, reject });
+
+      if (this.queue.length >= this.batching!.maxSize) {
+        this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(), this.batching!.wait);
+      }
+    });
+  }
 
-    try {
-      const response = await fetch(this.url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request),
-        signal: controller.signal
-      });
+  /**
+   * Send queued calls as one batch, routing responses back by id
+   */
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const queued = this.queue.splice(0, this.batching!.maxSize);
+    if (this.queue.length > 0) {
+      this.flushTimer = setTimeout(() => this.flush(), 0);
+    }
+    if (queued.length === 0) return;
 
-      const data = await response.json() as RPCResponse<T>;
+    // Single call: no batch overhead
+    if (queued.length === 1) {
+      const [{ request, resolve, reject }] = queued;
+      this.send(request.method, request.params).then(resolve, reject);
+      return;
+    }
 
-      if (data.error) {
-        throw new Error(`RPC Error ${data.error.code}: ${data.error.message}`);
+    this.postBatch(queued.map(q => q.request)).then(responses => {
+      for (const { request, resolve, reject } of queued) {
+        const response = responses.get(request.id);
+        if (!response) {
+          // Node dropped this call from the batch; transient, retried individually
+          reject(new NetworkError(`No response for batched ${request.method} (id ${request.id})`));
+        } else if (response.error) {
+          reject(createRpcError(response.error));
+        } else {
+          resolve(response.result);
+        }
       }
+    }, error => {
+      for (const { reject } of queued) reject(error);
+    });
+  }
 
-      return data.result as T;
-    } finally {
-      clearTimeout(timeoutId);
+  /**
+   * POST batch and index responses by id
+   */
+  private async postBatch(requests: RPCRequest[]): Promise<Map<number, RPCResponse>> {
+    const body = await this.post<RPCResponse[] | RPCResponse>(requests);
+
+    // Node rejected the batch as a whole
+    if (!Array.isArray(body)) {
+      throw body.error ? createRpcError(body.error) : new NetworkError('Invalid batch response');
     }
+
+    const responses = new Map<number, RPCResponse>();
+    for (const response of body) {
+      if (response && typeof response.id === 'number') {
+        responses.set(response.id, response);
+      }
+    }
+    return responses;
   }
 
   /**
-   * Batch RPC calls
+   * Single request attempt
    */
-  async batch<T = any>(calls: Array<{ method: string; params?: any[] }>): Promise<T[]> {
-    const requests: RPCRequest[] = calls.map((call, i) => ({
+  private async send<T>(method: string, params: any[]): Promise<T> {
+    const request: RPCRequest = {
       jsonrpc: '2.0',
-      id: i + 1,
-      method: call.method,
-      params: call.params || []
-    }));
+      id: ++this.requestId,
+      method,
+      params
+    };
 
-    const response = await fetch(this.url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(requests)
-    });
+    const data = await this.post<RPCResponse<T>>(request);
+
+    if (data.error) {
+      throw createRpcError(data.error);
+    }
+
+    return data.result as T;
+  }
 
-    const results = await response.json() as RPCResponse<T>[];
+  /**
+   * Send payload through the transport within the rate limit
+   * Throttling responses (429) pause the limiter for Retry-After or an increasing delay.
+   */
+  private async post<R>(body: RPCRequest | RPCRequest[]): Promise<R> {
+    if (!this.limiter) {
+      return await this.transport.request(body) as R;
+    }
 
-    return results.sort((a, b) => a.id - b.id).map(r => {
-      if (r.error) throw new Error(`RPC Error ${r.error.code}: ${r.error.message}`);
-      return r.result as T;
+    const limiter = this.limiter;
+    return limiter.schedule(async () => {
+      try {
+        const result = await this.transport.request(body) as R;
+        limiter.recover();
+        return result;
+      } catch (error: any) {
+        if (isRateLimitError(error)) {
+          limiter.throttle(error.retryAfter);
+        }
+        throw error;
+      }
     });
   }
 
+  /**
+   * Run request, retrying transient failures with exponential backoff
+   */
+  private async withRetry<T>(method: string, fn: (attempt: number) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn(attempt);
+      } catch (error: any) {
+        const retryable = this.retry.shouldRetry
+          ? this.retry.shouldRetry(error, attempt + 1, method)
+          : isRetryableError(error);
+        if (attempt >= this.retry.retries || !retryable) {
+          throw error;
+        }
+
+        this.retry.onRetry?.(error, attempt + 1, method);
+        // Wait at least as long as the node asked to
+        await sleep(Math.max(this.backoff(attempt), error?.retryAfter ?? 0));
+      }
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.retry.maxDelay, this.retry.minDelay * 2 ** attempt);
+    // Equal jitter: between half and full delay
+    return this.retry.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+  }
+
   // ============ Chain Methods ============
 
   async getChainId(): Promise<string> {
@@ -89,6 +288,10 @@ export class RPCClient {
     return this.call('eth_gasPrice');
   }
 
+  async getMaxPriorityFeePerGas(): Promise<string> {
+    return this.call('eth_maxPriorityFeePerGas');
+  }
+
   async isSyncing(): Promise<boolean | object> {
     return this.call('eth_syncing');
   }
@@ -123,25 +326,50 @@ export class RPCClient {
 
   async getBlockByNumber(number: number | string, fullTx: boolean = false): Promise<Block | null> {
     const blockNum = typeof number === 'number' ? '0x' + number.toString(16) : number;
-    return this.call('eth_getBlockByNumber', [blockNum, fullTx]);
+    const block = await this.call('eth_getBlockByNumber', [blockNum, fullTx]);
+    return block ? this.formatters.block(block) : null;
   }
 
   async getBlockByHash(hash: string, fullTx: boolean = false): Promise<Block | null> {
-    return this.call('eth_getBlockByHash', [hash, fullTx]);
+    const block = await this.call('eth_getBlockByHash', [hash, fullTx]);
+    return block ? this.formatters.block(block) : null;
   }
 
   // ============ Transaction Methods ============
 
   async getTransactionByHash(hash: string): Promise<Transaction | null> {
-    return this.call('eth_getTransactionByHash', [hash]);
+    const tx = await this.call('eth_getTransactionByHash', [hash]);
+    return tx ? this.formatters.transaction(tx) : null;
   }
 
   async getTransactionReceipt(hash: string): Promise<TransactionReceipt | null> {
-    return this.call('eth_getTransactionReceipt', [hash]);
+    const receipt = await this.call('eth_getTransactionReceipt', [hash]);
+    return receipt ? this.formatters.receipt(receipt) : null;
   }
 
+  /**
+   * Broadcast signed transaction
+   * Retried only after checking the previous attempt did not already reach the node
+   */
   async sendRawTransaction(signedTx: string): Promise<string> {
-    return this.call('eth_sendRawTransaction', [signedTx]);
+    const hash = '0x' + keccak256(hexToBytes(signedTx));
+
+    return this.withRetry('eth_sendRawTransaction', async (attempt) => {
+      if (attempt > 0) {
+        const known = await this.send('eth_getTransactionByHash', [hash]).catch(() => null);
+        if (known) return hash;
+      }
+
+      try {
+        return await this.send<string>('eth_sendRawTransaction', [signedTx]);
+      } catch (error: any) {
+        // Previous attempt was accepted after all
+        if (attempt > 0 && /already known|known transaction/i.test(String(error?.message))) {
+          return hash;
+        }
+        throw error;
+      }
+    });
   }
 
   async estimateGas(tx: object): Promise<string> {
@@ -174,7 +402,25 @@ export class RPCClient {
     if (filter.address) params.address = filter.address;
     if (filter.topics) params.topics = filter.topics;
 
-    return this.call('eth_getLogs', [params]);
+    const logs: any[] = await this.call('eth_getLogs', [params]);
+    return logs.map(log => this.formatters.log(log));
+  }
+
+  // ============ Debug Methods ============
+
+  /**
+   * Trace a mined transaction (requires the debug namespace on the node)
+   * @param config - Tracer config, e.g. { tracer: 'callTracer' }
+   */
+  async traceTransaction(txHash: string, config: object = {}): Promise<any> {
+    return this.call('debug_traceTransaction', [txHash, config]);
+  }
+
+  /**
+   * Trace a call against the state at block
+   */
+  async traceCall(tx: object, block: string = 'latest', config: object = {}): Promise<any> {
+    return this.call('debug_traceCall', [tx, block, config]);
   }
 
   // ============ Helper Methods ============
@@ -182,31 +428,33 @@ export class RPCClient {
   /**
    * Wait for transaction confirmation
    */
-  async waitForTransaction(txHash: string, confirmations: number = 1, timeout: number = 60000): Promise<TransactionReceipt> {
+  async waitForTransaction(
+    txHash: string,
+    confirmations: number = 1,
+    timeout: number = 60000,
+    pollInterval: number = 1000
+  ): Promise<TransactionReceipt> {
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeout) {
       const receipt = await this.getTransactionReceipt(txHash);
 
-      if (receipt && receipt.blockNumber) {
+      if (receipt && receipt.blockNumber !== null && receipt.blockNumber !== undefined) {
         if (confirmations <= 1) {
           return receipt;
         }
 
         const currentBlock = hexToNumber(await this.getBlockNumber());
-        const txBlock = typeof receipt.blockNumber === 'string'
-          ? hexToNumber(receipt.blockNumber)
-          : receipt.blockNumber;
 
-        if (currentBlock - txBlock + 1 >= confirmations) {
+        if (currentBlock - receipt.blockNumber + 1 >= confirmations) {
           return receipt;
         }
       }
 
-      await sleep(1000);
+      await sleep(pollInterval);
     }
 
-    throw new Error(`Transaction ${txHash} not confirmed within ${timeout}ms`);
+    throw new TimeoutError(`Transaction ${txHash} not confirmed within ${timeout}ms`);
   }
 
   /**
@@ -225,3 +473,31 @@ export class RPCClient {
     return balances;
   }
 }
+
+/**
+ * Default retry rule: network errors, timeouts, HTTP 408/429/5xx and rate limit errors
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof NetworkError) {
+    const status = error.status;
+    return status === undefined || status === 408 || status === 429 || status >= 500;
+  }
+  if (error instanceof RpcError) {
+    return RETRYABLE_RPC_CODES.includes(error.rpcCode);
+  }
+  return false;
+}
+
+/**
+ * Node asked us to slow down (HTTP 429, Retry-After, or rate limit JSON-RPC error)
+ */
+function isRateLimitError(error: any): boolean {
+  if (error instanceof NetworkError) {
+    return error.status === 429 || error.retryAfter !== undefined;
+  }
+  return error instanceof RpcError && RETRYABLE_RPC_CODES.includes(error.rpcCode);
+}
+
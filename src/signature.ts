@@ -0,0 +1,172 @@
+/**
+ * NanoPy SDK Signatures
+ * Signature splitting, recovery and verification
+ */
+
+import * as secp256k1 from 'secp256k1';
+import { keccak256 } from 'js-sha3';
+import { Signature, TypedDataDomain, TypedDataTypes } from './types';
+import { hashTypedData } from './eip712';
+import { bytesToHex, hexToBytes, toChecksumAddress } from './utils';
+
+// secp256k1 curve order / 2 (EIP-2: signatures with higher s are malleable)
+const SECP256K1_N_DIV_2 = BigInt('0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0');
+
+/**
+ * Hash message with Ethereum signed message prefix (personal_sign)
+ * @param message - Message (string or bytes)
+ * @returns Hash as hex string
+ */
+export function hashMessage(message: string | Uint8Array): string {
+  const messageBytes = typeof message === 'string'
+    ? new TextEncoder().encode(message)
+    : message;
+
+  const prefix = `\x19Ethereum Signed Message:\n${messageBytes.length}`;
+  const prefixBytes = new TextEncoder().encode(prefix);
+
+  const fullMessage = new Uint8Array(prefixBytes.length + messageBytes.length);
+  fullMessage.set(prefixBytes);
+  fullMessage.set(messageBytes, prefixBytes.length);
+
+  return '0x' + keccak256(fullMessage);
+}
+
+/**
+ * Split signature into components
+ * Accepts 65-byte (r + s + v, v = 0/1/27/28) and 64-byte EIP-2098 compact signatures
+ * @param signature - Signature hex
+ * @throws If signature is malformed or has high s (malleable)
+ */
+export function splitSignature(signature: string): Signature {
+  const bytes = hexToBytes(signature);
+  let yParity: number;
+  const r = bytes.slice(0, 32);
+  const s = bytes.slice(32, 64);
+
+  if (bytes.length === 65) {
+    const v = bytes[64];
+    if (v === 0 || v === 1) {
+      yParity = v;
+    } else if (v === 27 || v === 28) {
+      yParity = v - 27;
+    } else {
+      throw new Error(`Invalid signature v value: ${v}`);
+    }
+  } else if (bytes.length === 64) {
+    // EIP-2098: top bit of s holds yParity
+    yParity = s[0] >> 7;
+    s[0] &= 0x7f;
+  } else {
+    throw new Error(`Invalid signature length: ${bytes.length} bytes`);
+  }
+
+  return normalizeSignature(bytesToHex(r), bytesToHex(s), yParity);
+}
+
+/**
+ * Join signature components into 65-byte signature (r + s + v)
+ * @param signature - Components ({ r, s } with v or yParity)
+ */
+export function joinSignature(signature: { r: string; s: string; v?: number; yParity?: number }): string {
+  let yParity = signature.yParity;
+  if (yParity === undefined) {
+    if (signature.v === undefined) {
+      throw new Error('Signature requires v or yParity');
+    }
+    yParity = signature.v >= 27 ? signature.v - 27 : signature.v;
+  }
+
+  return normalizeSignature(signature.r, signature.s, yParity).serialized;
+}
+
+/**
+ * Convert signature to EIP-2098 compact form (64 bytes)
+ */
+export function toCompactSignature(signature: string): string {
+  return splitSignature(signature).compact;
+}
+
+/**
+ * Recover public key from hash and signature
+ * @param hash - 32-byte hash that was signed
+ * @param signature - Signature hex (65 or 64 bytes)
+ * @returns Uncompressed public key without 04 prefix
+ */
+export function recoverPublicKey(hash: string | Uint8Array, signature: string): string {
+  const hashBytes = typeof hash === 'string' ? hexToBytes(hash) : hash;
+  if (hashBytes.length !== 32) {
+    throw new Error(`Invalid hash length: ${hashBytes.length} bytes`);
+  }
+
+  const sig = splitSignature(signature);
+  const rs = hexToBytes(sig.r.slice(2) + sig.s.slice(2));
+  const publicKey = secp256k1.ecdsaRecover(rs, sig.yParity, hashBytes, false);
+
+  return bytesToHex(publicKey.slice(1));
+}
+
+/**
+ * Recover signer address from hash and signature
+ * @param hash - 32-byte hash that was signed
+ * @param signature - Signature hex (65 or 64 bytes)
+ * @returns Checksummed address
+ */
+export function recoverAddress(hash: string | Uint8Array, signature: string): string {
+  const publicKey = recoverPublicKey(hash, signature);
+  return toChecksumAddress('0x' + keccak256(hexToBytes(publicKey)).slice(-40));
+}
+
+/**
+ * Recover signer of personal_sign message (Wallet.sign, BrowserProvider.signMessage)
+ * @returns Checksummed signer address
+ *
+ * @example
+ * ```typescript
+ * const signer = verifyMessage(message, signature);
+ * if (signer.toLowerCase() !== player.toLowerCase()) throw new Error('Bad signature');
+ * ```
+ */
+export function verifyMessage(message: string | Uint8Array, signature: string): string {
+  return recoverAddress(hashMessage(message), signature);
+}
+
+/**
+ * Recover signer of EIP-712 typed data (Wallet.signTypedData, eth_signTypedData_v4)
+ * @returns Checksummed signer address
+ */
+export function verifyTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>,
+  signature: string,
+  primaryType?: string
+): string {
+  return recoverAddress(hashTypedData(domain, types, value, primaryType), signature);
+}
+
+function normalizeSignature(r: string, s: string, yParity: number): Signature {
+  if (yParity !== 0 && yParity !== 1) {
+    throw new Error(`Invalid signature yParity: ${yParity}`);
+  }
+
+  const rHex = r.replace(/^0x/, '').padStart(64, '0');
+  const sHex = s.replace(/^0x/, '').padStart(64, '0');
+  if (rHex.length !== 64 || sHex.length !== 64) {
+    throw new Error('Invalid signature r or s length');
+  }
+  if (BigInt('0x' + sHex) > SECP256K1_N_DIV_2) {
+    throw new Error('Invalid signature: s value too high (malleable signature)');
+  }
+
+  const compactS = ((yParity << 7) | parseInt(sHex.slice(0, 2), 16)).toString(16).padStart(2, '0') + sHex.slice(2);
+
+  return {
+    r: '0x' + rHex,
+    s: '0x' + sHex,
+    v: (27 + yParity) as 27 | 28,
+    yParity: yParity as 0 | 1,
+    compact: '0x' + rHex + compactS,
+    serialized: '0x' + rHex + sHex + (27 + yParity).toString(16)
+  };
+}
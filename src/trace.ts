@@ -0,0 +1,121 @@
+/**
+ * NanoPy SDK Tracing
+ * Typed call trees and state from debug_traceTransaction / debug_traceCall
+ */
+
+import { keccak256 } from 'js-sha3';
+import { ABI, ABIFunction, AccountState, CallTrace, DecodedCall, PrestateTrace, RevertReason } from './types';
+import { decodeParameters, formatAbiItem } from './abi';
+import { decodeRevertData } from './revert';
+
+/**
+ * Convert callTracer output into a typed call tree
+ * @param raw - Frame returned by the node
+ * @param abis - ABIs by lowercase address, used to decode inputs, outputs and custom errors
+ *
+ * @example
+ * ```typescript
+ * const trace = formatCallTrace(raw, new Map([[token.address.toLowerCase(), token.abi]]));
+ * console.log(trace.calls[0].decoded?.name); // "transferFrom"
+ * ```
+ */
+export function formatCallTrace(raw: any, abis: Map<string, ABI> = new Map(), depth: number = 0): CallTrace {
+  const to: string | null = raw.to ?? null;
+  const abi = (to && abis.get(to.toLowerCase())) || [];
+  const input: string = raw.input || '0x';
+  const output: string = raw.output || '0x';
+
+  const trace: CallTrace = {
+    type: raw.type,
+    from: raw.from,
+    to,
+    value: BigInt(raw.value ?? 0),
+    gas: Number(BigInt(raw.gas ?? 0)),
+    gasUsed: Number(BigInt(raw.gasUsed ?? 0)),
+    input,
+    output,
+    depth,
+    calls: (raw.calls || []).map((call: any) => formatCallTrace(call, abis, depth + 1))
+  };
+
+  if (raw.error) {
+    trace.error = raw.error;
+    trace.revert = decodeRevert(output, raw.revertReason, abi);
+  }
+
+  const decoded = decodeCall(input, raw.error ? undefined : output, abi);
+  if (decoded) {
+    trace.decoded = decoded;
+  }
+
+  return trace;
+}
+
+/**
+ * Convert prestateTracer output (balances as bigint, nonces as number)
+ */
+export function formatPrestate(raw: Record<string, any>): PrestateTrace {
+  const state: PrestateTrace = {};
+  for (const [address, account] of Object.entries(raw || {})) {
+    const formatted: AccountState = { ...account };
+    if (account.balance !== undefined) formatted.balance = BigInt(account.balance);
+    if (account.nonce !== undefined) formatted.nonce = Number(account.nonce);
+    state[address] = formatted;
+  }
+  return state;
+}
+
+/**
+ * Frames that failed, depth first (the innermost failure is usually the cause)
+ */
+export function findFailedCalls(trace: CallTrace): CallTrace[] {
+  const failed: CallTrace[] = [];
+  const visit = (frame: CallTrace) => {
+    if (frame.error) failed.push(frame);
+    frame.calls.forEach(visit);
+  };
+  visit(trace);
+  return failed;
+}
+
+/**
+ * Decode call by selector with the callee's ABI
+ */
+function decodeCall(input: string, output: string | undefined, abi: ABI): DecodedCall | undefined {
+  if (input.length < 10) return undefined;
+  const selector = input.slice(0, 10).toLowerCase();
+
+  for (const item of abi) {
+    if (item.type !== 'function' || !item.name) continue;
+
+    const signature = formatAbiItem(item, 'sighash');
+    if ('0x' + keccak256(signature).slice(0, 8) !== selector) continue;
+
+    try {
+      const decoded: DecodedCall = {
+        name: item.name,
+        signature,
+        args: decodeParameters(item.inputs || [], '0x' + input.slice(10))
+      };
+      if (output !== undefined && output !== '0x') {
+        decoded.result = decodeParameters((item as ABIFunction).outputs || [], output);
+      }
+      return decoded;
+    } catch {
+      // Data does not match the ABI
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Revert reason from output data, falling back to the reason string reported by the node
+ */
+function decodeRevert(output: string, revertReason: string | undefined, abi: ABI): RevertReason | null {
+  const reason = output !== '0x' ? decodeRevertData(output, abi) : null;
+  if (reason || !revertReason) {
+    return reason;
+  }
+  return { name: 'Error', signature: 'Error(string)', args: [revertReason], message: revertReason, data: output };
+}
@@ -0,0 +1,367 @@
+/**
+ * NanoPy SDK Transactions
+ * Serialization and parsing of legacy (EIP-155), EIP-2930 and EIP-1559 transactions
+ */
+
+import { keccak256 } from 'js-sha3';
+import * as rlp from 'rlp';
+import { TransactionRequest, TransactionType, AccessList, ParsedTransaction } from './types';
+import { recoverAddress } from './signature';
+import { bytesToHex, hexToBytes, numberToHex, toChecksumAddress } from './utils';
+
+const DEFAULT_CHAIN_ID = 1337;
+const DEFAULT_GAS_PRICE = '0x3B9ACA00'; // 1 Gwei
+const DEFAULT_GAS_LIMIT = 21000;
+
+export interface TransactionSignature {
+  r: string;
+  s: string;
+  yParity: number;
+}
+
+/**
+ * Determine transaction type from its fields
+ * Explicit `type` wins, then EIP-1559 fee fields, then access list
+ */
+export function getTransactionType(tx: TransactionRequest): TransactionType {
+  if (tx.type !== undefined && tx.type !== null) {
+    const type = Number(tx.type);
+    if (type !== 0 && type !== 1 && type !== 2) {
+      throw new Error(`Unsupported transaction type: ${tx.type}`);
+    }
+    return type;
+  }
+  if (tx.maxFeePerGas !== undefined || tx.maxPriorityFeePerGas !== undefined) {
+    return 2;
+  }
+  if (tx.accessList !== undefined) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Serialize transaction
+ * @param tx - Transaction fields
+ * @param signature - Signature (unsigned payload for hashing when omitted)
+ * @returns Serialized transaction hex
+ */
+export function serializeTransaction(tx: TransactionRequest, signature?: TransactionSignature): string {
+  const type = getTransactionType(tx);
+  const chainId = tx.chainId ?? DEFAULT_CHAIN_ID;
+
+  const nonce = toRlpNumber(tx.nonce ?? 0);
+  const gasLimit = toRlpNumber(tx.gasLimit ?? DEFAULT_GAS_LIMIT);
+  const to = tx.to ? hexToBytes(tx.to) : new Uint8Array(0);
+  const value = toRlpNumber(tx.value ?? 0);
+  const data = tx.data ? hexToBytes(tx.data) : new Uint8Array(0);
+
+  if (type === 0) {
+    const gasPrice = toRlpNumber(tx.gasPrice ?? DEFAULT_GAS_PRICE);
+    const fields: any[] = [nonce, gasPrice, gasLimit, to, value, data];
+
+    if (signature) {
+      // EIP-155: v = recid + chainId * 2 + 35
+      const v = BigInt(signature.yParity) + BigInt(chainId) * 2n + 35n;
+      fields.push(toRlpNumber(v), toRlpNumber(signature.r), toRlpNumber(signature.s));
+    } else {
+      // EIP-155: include chainId in signing
+      fields.push(toRlpNumber(chainId), new Uint8Array(0), new Uint8Array(0));
+    }
+
+    return bytesToHex(rlp.encode(fields) as Uint8Array);
+  }
+
+  const accessList = encodeAccessList(tx.accessList || []);
+  let fields: any[];
+
+  if (type === 1) {
+    const gasPrice = toRlpNumber(tx.gasPrice ?? DEFAULT_GAS_PRICE);
+    fields = [toRlpNumber(chainId), nonce, gasPrice, gasLimit, to, value, data, accessList];
+  } else {
+    const maxPriorityFeePerGas = toRlpNumber(tx.maxPriorityFeePerGas ?? 0);
+    const maxFeePerGas = toRlpNumber(tx.maxFeePerGas ?? tx.gasPrice ?? DEFAULT_GAS_PRICE);
+    fields = [toRlpNumber(chainId), nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList];
+  }
+
+  if (signature) {
+    fields.push(toRlpNumber(signature.yParity), toRlpNumber(signature.r), toRlpNumber(signature.s));
+  }
+
+  const encoded = rlp.encode(fields) as Uint8Array;
+  const typed = new Uint8Array(encoded.length + 1);
+  typed[0] = type;
+  typed.set(encoded, 1);
+
+  return bytesToHex(typed);
+}
+
+/**
+ * Hash to sign for transaction
+ */
+export function transactionSigningHash(tx: TransactionRequest): string {
+  return '0x' + keccak256(hexToBytes(serializeTransaction(tx)));
+}
+
+/**
+ * Convert transaction fields to JSON-RPC form (hex quantities, `gas` for gasLimit)
+ * for eth_estimateGas, eth_call and debug_traceCall
+ *
+ * @example
+ * ```typescript
+ * await client.rpc.estimateGas(toRpcTransaction({ from, to, value: 10n ** 18n, maxFeePerGas: 2n * 10n ** 9n }));
+ * ```
+ */
+export function toRpcTransaction(tx: TransactionRequest): Record<string, any> {
+  const quantity = (value: string | number | bigint | undefined) =>
+    value === undefined || value === null ? undefined : numberToHex(BigInt(value));
+
+  return {
+    from: tx.from,
+    to: tx.to ?? undefined,
+    nonce: quantity(tx.nonce),
+    value: quantity(tx.value),
+    data: tx.data,
+    gas: quantity(tx.gasLimit),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    accessList: tx.accessList,
+    chainId: quantity(tx.chainId)
+  };
+}
+
+/**
+ * Parse signed raw transaction (inverse of Wallet.signTransaction)
+ * @param raw - Signed transaction hex (legacy, EIP-2930 or EIP-1559)
+ * @returns Decoded fields, chain ID, hash and recovered sender
+ *
+ * @example
+ * ```typescript
+ * const tx = parseTransaction(rawTxFromClient);
+ * if (tx.chainId !== client.chainId) throw new Error('Wrong chain');
+ * console.log(tx.from, tx.to, tx.value);
+ * ```
+ */
+export function parseTransaction(raw: string): ParsedTransaction {
+  const bytes = hexToBytes(raw);
+  if (bytes.length === 0) {
+    throw new Error('Empty transaction');
+  }
+
+  const hash = '0x' + keccak256(bytes);
+
+  // Typed transaction envelope (EIP-2718): first byte < 0x7f
+  if (bytes[0] <= 0x7f) {
+    return parseTypedTransaction(bytes, hash);
+  }
+
+  const fields = decodeList(bytes, 9, 'legacy');
+  const [nonce, gasPrice, gasLimit, to, value, data, vBytes, r, s] = fields as Uint8Array[];
+  const v = bytesToBigInt(vBytes);
+
+  let chainId = 0n;
+  let yParity: number;
+  if (v === 27n || v === 28n) {
+    yParity = Number(v - 27n);
+  } else if (v >= 35n) {
+    // EIP-155: v = recid + chainId * 2 + 35
+    chainId = (v - 35n) / 2n;
+    yParity = Number((v - 35n) % 2n);
+  } else {
+    throw new Error(`Invalid legacy transaction v value: ${v}`);
+  }
+
+  const tx: ParsedTransaction = {
+    type: 0,
+    hash,
+    from: '',
+    to: decodeAddress(to),
+    nonce: Number(bytesToBigInt(nonce)),
+    value: bytesToBigInt(value),
+    data: bytesToHex(data),
+    gasLimit: Number(bytesToBigInt(gasLimit)),
+    gasPrice: bytesToBigInt(gasPrice),
+    chainId: Number(chainId),
+    signature: decodeSignature(r, s, yParity, Number(v))
+  };
+
+  // Pre-EIP-155 transactions sign only the first six fields
+  const signingHash = chainId === 0n
+    ? '0x' + keccak256(rlp.encode(fields.slice(0, 6) as any) as Uint8Array)
+    : transactionSigningHash(toRequest(tx));
+
+  tx.from = recoverSender(signingHash, tx);
+  return tx;
+}
+
+function parseTypedTransaction(bytes: Uint8Array, hash: string): ParsedTransaction {
+  const type = bytes[0];
+  const payload = bytes.slice(1);
+  let tx: ParsedTransaction;
+
+  if (type === 1) {
+    const fields = decodeList(payload, 11, 'EIP-2930');
+    const [chainId, nonce, gasPrice, gasLimit, to, value, data] = fields as Uint8Array[];
+    tx = {
+      type: 1,
+      hash,
+      from: '',
+      to: decodeAddress(to),
+      nonce: Number(bytesToBigInt(nonce)),
+      value: bytesToBigInt(value),
+      data: bytesToHex(data),
+      gasLimit: Number(bytesToBigInt(gasLimit)),
+      gasPrice: bytesToBigInt(gasPrice),
+      accessList: decodeAccessList(fields[7]),
+      chainId: Number(bytesToBigInt(chainId)),
+      signature: decodeTypedSignature(fields.slice(8) as Uint8Array[])
+    };
+  } else if (type === 2) {
+    const fields = decodeList(payload, 12, 'EIP-1559');
+    const [chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data] = fields as Uint8Array[];
+    tx = {
+      type: 2,
+      hash,
+      from: '',
+      to: decodeAddress(to),
+      nonce: Number(bytesToBigInt(nonce)),
+      value: bytesToBigInt(value),
+      data: bytesToHex(data),
+      gasLimit: Number(bytesToBigInt(gasLimit)),
+      maxPriorityFeePerGas: bytesToBigInt(maxPriorityFeePerGas),
+      maxFeePerGas: bytesToBigInt(maxFeePerGas),
+      accessList: decodeAccessList(fields[8]),
+      chainId: Number(bytesToBigInt(chainId)),
+      signature: decodeTypedSignature(fields.slice(9) as Uint8Array[])
+    };
+  } else {
+    throw new Error(`Unsupported transaction type: ${type}`);
+  }
+
+  tx.from = recoverSender(transactionSigningHash(toRequest(tx)), tx);
+  return tx;
+}
+
+function decodeList(bytes: Uint8Array, length: number, kind: string): any[] {
+  let decoded: any;
+  try {
+    decoded = rlp.decode(bytes);
+  } catch (error: any) {
+    throw new Error(`Invalid ${kind} transaction RLP: ${error.message}`);
+  }
+
+  if (!Array.isArray(decoded)) {
+    throw new Error(`Invalid ${kind} transaction: expected RLP list`);
+  }
+  if (decoded.length === length - 3) {
+    throw new Error(`${kind} transaction is not signed`);
+  }
+  if (decoded.length !== length) {
+    throw new Error(`Invalid ${kind} transaction: expected ${length} fields, got ${decoded.length}`);
+  }
+
+  return decoded;
+}
+
+function decodeTypedSignature([yParityBytes, r, s]: Uint8Array[]): ParsedTransaction['signature'] {
+  const yParity = Number(bytesToBigInt(yParityBytes));
+  if (yParity !== 0 && yParity !== 1) {
+    throw new Error(`Invalid transaction yParity: ${yParity}`);
+  }
+  return decodeSignature(r, s, yParity, yParity);
+}
+
+function decodeSignature(r: Uint8Array, s: Uint8Array, yParity: number, v: number): ParsedTransaction['signature'] {
+  return {
+    r: '0x' + bytesToBigInt(r).toString(16).padStart(64, '0'),
+    s: '0x' + bytesToBigInt(s).toString(16).padStart(64, '0'),
+    v,
+    yParity: yParity as 0 | 1
+  };
+}
+
+function recoverSender(signingHash: string, tx: ParsedTransaction): string {
+  const { r, s, yParity } = tx.signature;
+  return recoverAddress(signingHash, r + s.slice(2) + (27 + yParity).toString(16));
+}
+
+function decodeAccessList(list: any): AccessList {
+  if (!Array.isArray(list)) {
+    throw new Error('Invalid access list');
+  }
+  return list.map((item: any) => {
+    if (!Array.isArray(item) || item.length !== 2 || !Array.isArray(item[1])) {
+      throw new Error('Invalid access list entry');
+    }
+    return {
+      address: toChecksumAddress(bytesToHex(item[0])),
+      storageKeys: item[1].map((key: Uint8Array) => bytesToHex(key))
+    };
+  });
+}
+
+function decodeAddress(bytes: Uint8Array): string | null {
+  if (bytes.length === 0) return null;
+  if (bytes.length !== 20) {
+    throw new Error(`Invalid transaction recipient: ${bytesToHex(bytes)}`);
+  }
+  return toChecksumAddress(bytesToHex(bytes));
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  if (!(bytes instanceof Uint8Array)) {
+    throw new Error('Invalid transaction field: expected bytes');
+  }
+  return bytes.length === 0 ? 0n : BigInt(bytesToHex(bytes));
+}
+
+function toRequest(tx: ParsedTransaction): TransactionRequest {
+  return {
+    type: tx.type,
+    to: tx.to,
+    nonce: tx.nonce,
+    value: tx.value,
+    data: tx.data,
+    gasLimit: tx.gasLimit,
+    gasPrice: tx.gasPrice,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    accessList: tx.accessList,
+    chainId: tx.chainId
+  };
+}
+
+/**
+ * Normalize access list entries into RLP structure
+ */
+function encodeAccessList(accessList: AccessList): any[] {
+  return accessList.map(item => [
+    hexToBytes(item.address),
+    item.storageKeys.map(key => {
+      const bytes = hexToBytes(key);
+      if (bytes.length !== 32) {
+        throw new Error(`Invalid access list storage key: ${key}`);
+      }
+      return bytes;
+    })
+  ]);
+}
+
+/**
+ * Convert value to RLP-compatible format (big-endian, no leading zeros)
+ */
+function toRlpNumber(value: number | string | bigint): Uint8Array {
+  const num = BigInt(value);
+
+  if (num < 0n) {
+    throw new Error(`Cannot RLP encode negative number: ${value}`);
+  }
+  if (num === 0n) {
+    return new Uint8Array(0);
+  }
+
+  const hex = num.toString(16);
+  const paddedHex = hex.length % 2 ? '0' + hex : hex;
+  return hexToBytes(paddedHex);
+}
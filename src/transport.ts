@@ -0,0 +1,96 @@
+/**
+ * NanoPy SDK HTTP Transport
+ * Delivers JSON-RPC payloads to a node over HTTP
+ */
+
+import { RPCRequest, RPCResponse, Transport } from './types';
+import { createRpcError, NetworkError, RpcError, TimeoutError } from './errors';
+
+/**
+ * Default transport of RPCClient: POSTs JSON-RPC payloads with a timeout.
+ * HTTP errors become NetworkError with the status and Retry-After delay.
+ */
+export class HttpTransport implements Transport {
+  readonly url: string;
+  private timeout: number;
+
+  /**
+   * @param url - Node URL
+   * @param timeout - Request timeout in ms
+   */
+  constructor(url: string, timeout: number = 30000) {
+    this.url = url;
+    this.timeout = timeout;
+  }
+
+  async request(payload: RPCRequest | RPCRequest[]): Promise<RPCResponse | RPCResponse[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+
+      return await this.parseResponse(response);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        const label = Array.isArray(payload) ? 'batch' : payload.method;
+        throw new TimeoutError(`RPC request ${label} timed out after ${this.timeout}ms`);
+      }
+      throw error instanceof NetworkError ? error : new NetworkError(`Failed to reach ${this.url}: ${error?.message || error}`, error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Parse JSON-RPC response body (HTTP errors are network errors)
+   */
+  private async parseResponse(response: Response): Promise<any> {
+    if (!response.ok) {
+      throw await this.httpError(response);
+    }
+    try {
+      return await response.json();
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      throw new NetworkError(`Invalid JSON-RPC response from ${this.url}`, error, response.status);
+    }
+  }
+
+  /**
+   * Error for a non-2xx response, with the node's JSON-RPC error as cause if the body has one
+   */
+  private async httpError(response: Response): Promise<NetworkError> {
+    let cause: RpcError | undefined;
+    try {
+      const body = JSON.parse(await response.text());
+      if (body?.error) cause = createRpcError(body.error);
+    } catch (error: any) {
+      // Body is not JSON (e.g. a proxy error page)
+      if (error?.name === 'AbortError') throw error;
+    }
+    const detail = cause ? `: ${cause.message}` : '';
+    return new NetworkError(`HTTP ${response.status} from ${this.url}${detail}`, cause, response.status, parseRetryAfter(response));
+  }
+}
+
+/**
+ * Retry-After header in ms (seconds or HTTP date)
+ */
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers?.get('retry-after');
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -3,6 +3,8 @@
  * Complete TypeScript definitions for the NanoPy blockchain SDK
  */
 
+import type { RPCClient } from './rpc';
+
 // ============ Network Configuration ============
 
 export interface NetworkConfig {
@@ -42,7 +44,16 @@ export const NETWORKS: Record<'mainnet' | 'testnet' | 'local', NetworkConfig> =
 
 // ============ Transaction Types ============
 
+export type TransactionType = 0 | 1 | 2;
+
+export type AccessList = Array<{
+  address: string;
+  storageKeys: string[];
+}>;
+
 export interface TransactionRequest {
+  /** 0 = legacy, 1 = EIP-2930, 2 = EIP-1559 (inferred from fields when omitted) */
+  type?: TransactionType;
   to?: string | null;
   from?: string;
   nonce?: number;
@@ -50,9 +61,35 @@ export interface TransactionRequest {
   data?: string;
   gasLimit?: string | number;
   gasPrice?: string | bigint;
+  maxFeePerGas?: string | bigint;
+  maxPriorityFeePerGas?: string | bigint;
+  accessList?: AccessList;
   chainId?: number;
 }
 
+export interface ParsedTransaction {
+  type: TransactionType;
+  hash: string;
+  from: string;
+  to: string | null;
+  nonce: number;
+  value: bigint;
+  data: string;
+  gasLimit: number;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  accessList?: AccessList;
+  /** 0 for legacy transactions signed without EIP-155 replay protection */
+  chainId: number;
+  signature: {
+    r: string;
+    s: string;
+    v: number;
+    yParity: 0 | 1;
+  };
+}
+
 export interface SignedTransaction {
   raw: string;
   hash: string;
@@ -68,7 +105,11 @@ export interface TransactionReceipt {
   contractAddress: string | null;
   cumulativeGasUsed: number;
   gasUsed: number;
+  /** Price paid per gas in wei */
+  effectiveGasPrice?: bigint;
+  type?: number;
   logs: Log[];
+  /** 1 = success, 0 = reverted */
   status: number;
 }
 
@@ -97,13 +138,14 @@ export interface Block {
   stateRoot: string;
   receiptsRoot: string;
   miner: string;
-  difficulty: string;
-  totalDifficulty: string;
+  difficulty: bigint;
+  totalDifficulty: bigint;
   extraData: string;
   size: number;
   gasLimit: number;
   gasUsed: number;
   timestamp: number;
+  baseFeePerGas?: bigint;
   transactions: string[] | Transaction[];
   uncles: string[];
 }
@@ -111,13 +153,19 @@ export interface Block {
 export interface Transaction {
   hash: string;
   nonce: number;
-  blockHash: string;
-  blockNumber: number;
-  transactionIndex: number;
+  /** Null while pending */
+  blockHash: string | null;
+  blockNumber: number | null;
+  transactionIndex: number | null;
   from: string;
   to: string | null;
-  value: string;
-  gasPrice: string;
+  value: bigint;
+  gasPrice: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  type?: number;
+  accessList?: AccessList;
+  chainId?: number;
   gas: number;
   input: string;
   v: string;
@@ -135,7 +183,7 @@ export interface ABIParameter {
 }
 
 export interface ABIFunction {
-  type: 'function' | 'constructor' | 'event' | 'fallback' | 'receive';
+  type: 'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive';
   name?: string;
   inputs?: ABIParameter[];
   outputs?: ABIParameter[];
@@ -145,11 +193,30 @@ export interface ABIFunction {
 
 export type ABI = ABIFunction[];
 
+export interface RevertReason {
+  /** 'Error', 'Panic' or custom error name */
+  name: string;
+  /** e.g. 'Error(string)', 'InsufficientBalance(uint256,uint256)' */
+  signature: string;
+  args: any[];
+  /** Readable reason */
+  message: string;
+  /** Raw revert data */
+  data: string;
+}
+
+/**
+ * JSON ABI or human-readable signatures, e.g. 'function balanceOf(address owner) view returns (uint256)'
+ */
+export type ABIInput = Array<ABIFunction | string>;
+
 export interface CallOptions {
   from?: string;
   value?: string | bigint;
   gasLimit?: string | number;
   gasPrice?: string | bigint;
+  maxFeePerGas?: string | bigint;
+  maxPriorityFeePerGas?: string | bigint;
 }
 
 export interface DeployResult {
@@ -167,6 +234,105 @@ export interface WalletData {
   publicKey: string;
 }
 
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+export interface ScryptParams {
+  dklen: number;
+  salt: string;
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  salt: string;
+  c: number;
+  prf: 'hmac-sha256';
+}
+
+export interface EncryptOptions {
+  kdf?: 'scrypt' | 'pbkdf2';
+  /** scrypt cost (default: 262144, same as geth) */
+  n?: number;
+  r?: number;
+  p?: number;
+  /** pbkdf2 iterations (default: 262144) */
+  c?: number;
+  salt?: string | Uint8Array;
+  iv?: string | Uint8Array;
+  uuid?: string;
+}
+
+// ============ Signer Types ============
+
+/**
+ * Anything that can authorize transactions: local Wallet, BrowserProvider (MetaMask), ...
+ * Implementations provide signTransaction (raw signing, NanoPy broadcasts)
+ * and/or sendTransaction (the signer broadcasts and returns the hash).
+ */
+export interface Signer {
+  getAddress(): Promise<string>;
+  signMessage(message: string | Uint8Array): Promise<string>;
+  signTypedData(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+    primaryType?: string
+  ): string | Promise<string>;
+  signTransaction?(tx: TransactionRequest): string | Promise<string>;
+  sendTransaction?(tx: TransactionRequest): Promise<string>;
+}
+
+// ============ Signature Types ============
+
+export interface Signature {
+  r: string;
+  s: string;
+  v: 27 | 28;
+  yParity: 0 | 1;
+  /** EIP-2098 compact form (64 bytes) */
+  compact: string;
+  /** Full form r + s + v (65 bytes) */
+  serialized: string;
+}
+
+// ============ EIP-712 Types ============
+
+export interface TypedDataDomain {
+  name?: string;
+  version?: string;
+  chainId?: number | bigint | string;
+  verifyingContract?: string;
+  salt?: string;
+}
+
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+export type TypedDataTypes = Record<string, TypedDataField[]>;
+
+export interface TypedDataPayload {
+  types: TypedDataTypes;
+  domain: TypedDataDomain;
+  primaryType: string;
+  message: Record<string, any>;
+}
+
 // ============ Subscription Types ============
 
 export type SubscriptionType = 'newHeads' | 'newPendingTransactions' | 'logs';
@@ -184,6 +350,7 @@ export interface NewHeadEvent {
   miner: string;
   gasUsed: number;
   gasLimit: number;
+  baseFeePerGas?: bigint;
 }
 
 export interface PendingTxEvent {
@@ -227,11 +394,364 @@ export interface SyncStatus {
   highestBlock: number;
 }
 
+// ============ Fee Types ============
+
+export interface FeeData {
+  gasPrice: bigint;
+  /** Latest block base fee (undefined when the node has no EIP-1559 support) */
+  baseFeePerGas?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Fee strategy: gas oracle level, or a function adjusting the standard suggestion
+ */
+export type FeeStrategy =
+  | 'slow'
+  | 'standard'
+  | 'fast'
+  | ((fees: FeeData) => FeeData | Promise<FeeData>);
+
+export interface GasSuggestions {
+  /** Block the suggestions were computed at */
+  blockNumber: number;
+  /** Where the suggestions come from */
+  source: 'feeHistory' | 'blocks' | 'gasPrice';
+  /** Expected base fee of the next block (undefined without EIP-1559) */
+  baseFeePerGas?: bigint;
+  slow: FeeData;
+  standard: FeeData;
+  fast: FeeData;
+}
+
+export interface GasOracleOptions {
+  /** Blocks of fee history to sample (default: 20) */
+  blocks?: number;
+  /** Recent blocks to read when eth_feeHistory is unavailable (default: 5) */
+  sampleBlocks?: number;
+  /** Tip percentile per level, strictly ascending (default: 10 / 50 / 90) */
+  percentiles?: { slow?: number; standard?: number; fast?: number };
+}
+
+// ============ Trace Types ============
+
+/**
+ * Call frame from the callTracer, with nested calls
+ */
+export interface CallTrace {
+  /** CALL, STATICCALL, DELEGATECALL, CALLCODE, CREATE, CREATE2 or SELFDESTRUCT */
+  type: string;
+  from: string;
+  to: string | null;
+  value: bigint;
+  gas: number;
+  gasUsed: number;
+  input: string;
+  output: string;
+  /** Failure reported by the node (e.g. "execution reverted", "out of gas") */
+  error?: string;
+  /** Decoded revert reason when the frame reverted with data */
+  revert?: RevertReason | null;
+  /** Decoded function call, when an ABI is registered for `to` */
+  decoded?: DecodedCall;
+  /** Nesting level (0 for the transaction itself) */
+  depth: number;
+  calls: CallTrace[];
+}
+
+export interface DecodedCall {
+  name: string;
+  signature: string;
+  args: any[];
+  /** Decoded return values (undefined if the call failed) */
+  result?: any[];
+}
+
+export interface AccountState {
+  balance?: bigint;
+  nonce?: number;
+  code?: string;
+  storage?: Record<string, string>;
+}
+
+/**
+ * Accounts touched by a transaction, as before execution
+ */
+export type PrestateTrace = Record<string, AccountState>;
+
+/**
+ * Accounts touched by a transaction, before and after (changed fields only)
+ */
+export interface PrestateDiff {
+  pre: PrestateTrace;
+  post: PrestateTrace;
+}
+
+export interface CallTracerOptions {
+  tracer?: 'callTracer';
+  /** Trace the top-level call only */
+  onlyTopCall?: boolean;
+  /** Node-side timeout (e.g. '10s') */
+  timeout?: string;
+}
+
+export interface PrestateTracerOptions {
+  tracer: 'prestateTracer';
+  /** Return pre and post state instead of pre state only */
+  diffMode?: boolean;
+  /** Node-side timeout (e.g. '10s') */
+  timeout?: string;
+}
+
+export type TraceOptions = CallTracerOptions | PrestateTracerOptions;
+
 // ============ Client Options ============
 
+/**
+ * Retry policy for RPC requests. Network errors, timeouts, HTTP 429/5xx and
+ * rate limit errors are retried; reverts and other JSON-RPC errors are not.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3, 0 disables retries) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled on each retry (default: 250) */
+  minDelay?: number;
+  /** Maximum delay between retries in ms (default: 10000) */
+  maxDelay?: number;
+  /** Randomize delays so clients don't retry in lockstep (default: true) */
+  jitter?: boolean;
+  /** Override which errors are retried */
+  shouldRetry?: (error: Error, attempt: number, method: string) => boolean;
+  /** Called before each retry (e.g. for logging) */
+  onRetry?: (error: Error, attempt: number, method: string) => void;
+}
+
+export interface FallbackEndpoint {
+  url: string;
+  /** Lower values are tried first (default: 0) */
+  priority?: number;
+  /** Share of traffic among equal priority and vote weight for quorum (default: 1) */
+  weight?: number;
+  /** Request timeout in ms (default: provider timeout) */
+  timeout?: number;
+  /** Retries on this endpoint before failing over (default: none) */
+  retry?: RetryOptions;
+  /** Concurrency and rate limit of this endpoint (default: provider rateLimit) */
+  rateLimit?: RateLimitOptions;
+}
+
+export interface FallbackProviderOptions {
+  /** Weight of agreeing endpoints required for deterministic reads (default: 1) */
+  quorum?: number;
+  /** Request timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Merge calls into batch requests per endpoint (default: off) */
+  batch?: BatchOptions | boolean;
+  /** Cache responses in front of all endpoints (default: off) */
+  cache?: CacheOptions | boolean;
+  /** Rate limit for endpoints without their own (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+  /** Replace result formatters for nodes with non-standard responses */
+  formatters?: Partial<Formatters>;
+  /** Consecutive failures before an endpoint is marked unhealthy (default: 3) */
+  maxFailures?: number;
+  /** Time in ms an unhealthy endpoint is only used as last resort (default: 30000) */
+  cooldown?: number;
+}
+
+export interface EndpointStats {
+  url: string;
+  priority: number;
+  weight: number;
+  healthy: boolean;
+  /** Average response time in ms (null before the first response) */
+  latency: number | null;
+  requests: number;
+  failures: number;
+  lastError: string | null;
+}
+
+export interface BatchOptions {
+  /** Time in ms to collect calls before sending (default: 0, calls made in the same tick) */
+  wait?: number;
+  /** Maximum calls per batch request (default: 50) */
+  maxSize?: number;
+}
+
+export interface RateLimitOptions {
+  /** Maximum requests in flight (default: unlimited) */
+  maxConcurrent?: number;
+  /** Sustained requests per second (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once before the rate applies (default: requestsPerSecond) */
+  burst?: number;
+}
+
+export interface CacheEntry {
+  value: any;
+  /** Expiry time in ms since epoch, null if the value never changes */
+  expires: number | null;
+}
+
+/**
+ * Storage adapter for the RPC cache (e.g. Redis, IndexedDB). Methods may be async.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  /** Storage adapter (default: in-memory LRU) */
+  store?: CacheStore;
+  /** Size of the default in-memory store (default: 1000) */
+  maxEntries?: number;
+  /** Lifetime in ms of reads tagged `latest` (default: 2000) */
+  latestTtl?: number;
+  /** Blocks after which data is considered final (default: 12) */
+  reorgDepth?: number;
+  /** Lifetime in ms of data within reorg depth, in case a reorg goes unnoticed (default: 30000) */
+  recentTtl?: number;
+  /** Called when a request is answered from the cache */
+  onHit?: (method: string, params: any[]) => void;
+  /** Called when a cacheable request goes to the node */
+  onMiss?: (method: string, params: any[]) => void;
+}
+
+/**
+ * Converters from raw JSON-RPC results to typed values (override for node quirks)
+ */
+export interface Formatters {
+  block: (value: any) => Block;
+  transaction: (value: any) => Transaction;
+  receipt: (value: any) => TransactionReceipt;
+  log: (value: any) => Log;
+}
+
+/**
+ * Delivers JSON-RPC payloads to a node (HTTP by default; swap for mocks or recordings)
+ */
+export interface Transport {
+  /** Send request or batch and return the response body */
+  request(payload: RPCRequest | RPCRequest[]): Promise<RPCResponse | RPCResponse[]>;
+}
+
+/**
+ * Minimal WebSocket interface used by WSClient (browser WebSocket, `ws` package, recorders)
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface WSClientOptions {
+  /** Replace result formatters for nodes with non-standard responses */
+  formatters?: Partial<Formatters>;
+  /** WebSocket implementation (default: global WebSocket) */
+  WebSocket?: WebSocketConstructor;
+}
+
+/**
+ * Recorded request with its response (and subscription notifications for eth_subscribe)
+ */
+export interface FixtureEntry {
+  method: string;
+  params: any[];
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+  notifications?: any[];
+}
+
+export interface RPCFixture {
+  version: 1;
+  entries: FixtureEntry[];
+}
+
+export interface RecordOptions {
+  /**
+   * Remove private data before export: true redacts passwords, keys and secrets;
+   * a function additionally rewrites each entry
+   */
+  scrub?: boolean | ((entry: FixtureEntry) => FixtureEntry);
+}
+
+export interface ReplayOptions extends RecordOptions {
+  /** Each recorded response answers one request; fail on unused or exhausted entries (default: true) */
+  strict?: boolean;
+}
+
+export interface MockCall {
+  method: string;
+  params: any[];
+}
+
+export interface MockProviderOptions {
+  /** Chain ID reported by eth_chainId (default: 1337) */
+  chainId?: number;
+  /** Gas price and priority fee in wei (default: 1 gwei) */
+  gasPrice?: bigint | string;
+  /** Base fee of mined blocks in wei (default: 1 gwei) */
+  baseFeePerGas?: bigint | string;
+  /** Initial balances in wei by address */
+  accounts?: Record<string, bigint | string>;
+}
+
+export interface RPCClientOptions {
+  /** Request timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Retry policy for failed requests */
+  retry?: RetryOptions;
+  /** Merge calls made close together into JSON-RPC batch requests (default: off) */
+  batch?: BatchOptions | boolean;
+  /** Cache immutable chain data and short-lived `latest` reads (default: off) */
+  cache?: CacheOptions | boolean;
+  /** Limit concurrent requests and request rate (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+  /** Replace result formatters for nodes with non-standard responses */
+  formatters?: Partial<Formatters>;
+  /** Send requests through this transport instead of HTTP to the URL */
+  transport?: Transport;
+}
+
 export interface NanoPyOptions {
   chainId?: number;
   gasPrice?: string | bigint;
+  /** Use EIP-1559 transactions when the node supports them (default: true) */
+  eip1559?: boolean;
+  /** Fee level for transactions without explicit fees (default: 'standard') */
+  feeStrategy?: FeeStrategy;
+  /** Gas oracle sampling (blocks and percentiles) */
+  gasOracle?: GasOracleOptions;
+  /** Safety margin added to estimated gas, in percent (default: 20) */
+  gasMargin?: number;
   timeout?: number;
+  /** Retry policy for failed RPC requests */
+  retry?: RetryOptions;
+  /** Merge RPC calls made close together into batch requests (default: off) */
+  batch?: BatchOptions | boolean;
+  /** Cache RPC responses (default: off) */
+  cache?: CacheOptions | boolean;
+  /** Limit concurrent RPC requests and request rate (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+  /** Replace result formatters for nodes with non-standard responses */
+  formatters?: Partial<Formatters>;
+  /** Send RPC requests through this transport (e.g. a MockProvider) */
+  transport?: Transport;
+  /** WebSocket implementation for subscriptions (default: global WebSocket) */
+  webSocket?: WebSocketConstructor;
+  /** Use this RPC client instead of one for the network URL (e.g. a FallbackProvider) */
+  provider?: RPCClient;
+  /** Receipt polling interval in ms (default: 1000) */
+  pollingInterval?: number;
   network?: 'mainnet' | 'testnet' | 'local';
 }
@@ -190,6 +190,35 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Generate cryptographically secure random bytes
+ * @param length - Number of bytes
+ * @returns Uint8Array filled with random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    // Node.js fallback
+    const { randomBytes: nodeRandomBytes } = require('crypto');
+    bytes.set(nodeRandomBytes(length));
+  }
+  return bytes;
+}
+
+/**
+ * WebCrypto implementation: the global one in browsers and Node 19+,
+ * loaded from the crypto module on older Node (works in the CommonJS and ESM builds)
+ */
+export async function getWebCrypto(): Promise<Crypto> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    return crypto;
+  }
+  const { webcrypto } = await import('crypto');
+  return webcrypto as unknown as Crypto;
+}
+
 /**
  * Encode string to hex
  * @param str - String to encode
@@ -1,15 +1,28 @@
 /**
  * NanoPy SDK Wallet
- * Secure wallet management with EIP-155 transaction signing
+ * Secure wallet management with EIP-155 / EIP-1559 transaction signing
  */
 
 import * as secp256k1 from 'secp256k1';
 import { keccak256 } from 'js-sha3';
-import * as rlp from 'rlp';
-import { WalletData, TransactionRequest, SignedTransaction } from './types';
-import { bytesToHex, hexToBytes, numberToHex, toChecksumAddress } from './utils';
-
-export class Wallet {
+import {
+  WalletData,
+  TransactionRequest,
+  SignedTransaction,
+  KeystoreV3,
+  EncryptOptions,
+  TypedDataDomain,
+  TypedDataTypes,
+  Signer
+} from './types';
+import { hashTypedData } from './eip712';
+import { hashMessage } from './signature';
+import { serializeTransaction, transactionSigningHash } from './transaction';
+import { encryptKeystore, decryptKeystore } from './keystore';
+import { HDNode, DEFAULT_DERIVATION_PATH, accountPath, generateMnemonic } from './mnemonic';
+import { bytesToHex, hexToBytes, numberToHex, randomBytes, toChecksumAddress } from './utils';
+
+export class Wallet implements Signer {
   readonly address: string;
   readonly privateKey: string;
   readonly publicKey: string;
@@ -38,21 +51,11 @@ export class Wallet {
    * Generate random private key
    */
   private generatePrivateKey(): string {
-    const bytes = new Uint8Array(32);
-    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
-      crypto.getRandomValues(bytes);
-    } else {
-      // Node.js fallback
-      const { randomBytes } = require('crypto');
-      const nodeBytes = randomBytes(32);
-      bytes.set(nodeBytes);
-    }
+    let bytes = randomBytes(32);
 
     // Ensure valid secp256k1 key
     while (!secp256k1.privateKeyVerify(bytes)) {
-      if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
-        crypto.getRandomValues(bytes);
-      }
+      bytes = randomBytes(32);
     }
 
     return Buffer.from(bytes).toString('hex');
@@ -78,71 +81,61 @@ export class Wallet {
     return toChecksumAddress(address);
   }
 
+  /**
+   * Get wallet address (Signer interface)
+   */
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  /**
+   * Sign a message (Signer interface, same as sign)
+   */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.sign(message);
+  }
+
   /**
    * Sign a message (personal_sign compatible)
    * @param message - Message to sign (string or bytes)
    * @returns Signature as hex string
    */
   sign(message: string | Uint8Array): string {
-    const messageBytes = typeof message === 'string'
-      ? new TextEncoder().encode(message)
-      : message;
-
-    // Ethereum signed message prefix
-    const prefix = `\x19Ethereum Signed Message:\n${messageBytes.length}`;
-    const prefixBytes = new TextEncoder().encode(prefix);
-
-    const fullMessage = new Uint8Array(prefixBytes.length + messageBytes.length);
-    fullMessage.set(prefixBytes);
-    fullMessage.set(messageBytes, prefixBytes.length);
-
-    const hash = hexToBytes(keccak256(fullMessage));
-    const privateKeyBytes = hexToBytes(this.privateKey.slice(2));
-
-    const { signature, recid } = secp256k1.ecdsaSign(hash, privateKeyBytes);
-
-    // Encode as r + s + v
-    const r = bytesToHex(signature.slice(0, 32));
-    const s = bytesToHex(signature.slice(32, 64));
-    const v = (recid + 27).toString(16).padStart(2, '0');
-
-    return r + s.slice(2) + v;
+    const hash = hexToBytes(hashMessage(message));
+    return this.signHash(hash);
   }
 
   /**
-   * Sign typed data (EIP-712)
+   * Sign typed data (EIP-712, eth_signTypedData_v4 compatible)
    * @param domain - Domain separator
-   * @param types - Type definitions
+   * @param types - Type definitions (EIP712Domain optional, inferred from domain)
    * @param value - Data to sign
+   * @param primaryType - Primary type (inferred when omitted)
    * @returns Signature
+   *
+   * @example
+   * ```typescript
+   * const signature = wallet.signTypedData(
+   *   { name: 'MyGame', version: '1', chainId: 7770, verifyingContract: '0x...' },
+   *   { Move: [{ name: 'player', type: 'address' }, { name: 'x', type: 'uint8' }] },
+   *   { player: wallet.address, x: 3 }
+   * );
+   * ```
    */
   signTypedData(
-    domain: {
-      name?: string;
-      version?: string;
-      chainId?: number;
-      verifyingContract?: string;
-    },
-    types: Record<string, Array<{ name: string; type: string }>>,
-    value: Record<string, any>
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+    primaryType?: string
   ): string {
-    // Simplified EIP-712 - full implementation would be more complex
-    const domainHash = this.hashStruct('EIP712Domain', domain, {
-      EIP712Domain: [
-        { name: 'name', type: 'string' },
-        { name: 'version', type: 'string' },
-        { name: 'chainId', type: 'uint256' },
-        { name: 'verifyingContract', type: 'address' }
-      ]
-    });
-
-    const primaryType = Object.keys(types).find(t => t !== 'EIP712Domain') || '';
-    const messageHash = this.hashStruct(primaryType, value, types);
-
-    const hash = hexToBytes(keccak256(
-      '\x19\x01' + domainHash.slice(2) + messageHash.slice(2)
-    ));
+    const hash = hexToBytes(hashTypedData(domain, types, value, primaryType));
+    return this.signHash(hash);
+  }
 
+  /**
+   * Sign 32-byte hash and encode as r + s + v (v = 27/28)
+   */
+  private signHash(hash: Uint8Array): string {
     const privateKeyBytes = hexToBytes(this.privateKey.slice(2));
     const { signature, recid } = secp256k1.ecdsaSign(hash, privateKeyBytes);
 
@@ -153,115 +146,119 @@ export class Wallet {
     return r + s.slice(2) + v;
   }
 
-  private hashStruct(
-    typeName: string,
-    data: Record<string, any>,
-    types: Record<string, Array<{ name: string; type: string }>>
-  ): string {
-    // Simplified implementation
-    const typeHash = keccak256(this.encodeType(typeName, types));
-    let encoded = typeHash;
-
-    const typeFields = types[typeName] || [];
-    for (const field of typeFields) {
-      const value = data[field.name];
-      if (value !== undefined) {
-        if (field.type === 'string') {
-          encoded += keccak256(value);
-        } else if (field.type === 'uint256' || field.type === 'uint') {
-          encoded += BigInt(value).toString(16).padStart(64, '0');
-        } else if (field.type === 'address') {
-          encoded += value.slice(2).padStart(64, '0');
-        }
-      }
-    }
-
-    return '0x' + keccak256(hexToBytes(encoded));
-  }
-
-  private encodeType(
-    typeName: string,
-    types: Record<string, Array<{ name: string; type: string }>>
-  ): string {
-    const fields = types[typeName] || [];
-    return `${typeName}(${fields.map(f => `${f.type} ${f.name}`).join(',')})`;
-  }
-
   /**
-   * Sign transaction (EIP-155)
-   * @param tx - Transaction to sign
+   * Sign transaction (legacy EIP-155, EIP-2930 or EIP-1559)
+   * @param tx - Transaction to sign (type inferred from fee fields when omitted)
    * @returns Signed transaction hex
    */
   signTransaction(tx: TransactionRequest): string {
-    const chainId = tx.chainId || 1337;
-
-    // Convert values to proper format
-    const nonce = this.toRlpNumber(tx.nonce || 0);
-    const gasPrice = this.toRlpNumber(tx.gasPrice || '0x3B9ACA00');
-    const gasLimit = this.toRlpNumber(tx.gasLimit || 21000);
-    const to = tx.to ? hexToBytes(tx.to) : new Uint8Array(0);
-    const value = this.toRlpNumber(tx.value || 0);
-    const data = tx.data ? hexToBytes(tx.data) : new Uint8Array(0);
-
-    // EIP-155: include chainId in signing
-    const rawTx = [nonce, gasPrice, gasLimit, to, value, data, chainId, 0, 0];
-    const encoded = rlp.encode(rawTx as any);
-    const hash = hexToBytes(keccak256(encoded));
+    const hash = hexToBytes(transactionSigningHash(tx));
 
-    // Sign
     const privateKeyBytes = hexToBytes(this.privateKey.slice(2));
     const { signature, recid } = secp256k1.ecdsaSign(hash, privateKeyBytes);
 
-    const r = signature.slice(0, 32);
-    const s = signature.slice(32, 64);
-
-    // EIP-155: v = recid + chainId * 2 + 35
-    const v = recid + chainId * 2 + 35;
+    return serializeTransaction(tx, {
+      r: bytesToHex(signature.slice(0, 32)),
+      s: bytesToHex(signature.slice(32, 64)),
+      yParity: recid
+    });
+  }
 
-    // Final signed transaction
-    const signedTx = [nonce, gasPrice, gasLimit, to, value, data, v, r, s];
-    const signedEncoded = rlp.encode(signedTx as any);
+  /**
+   * Export wallet data
+   */
+  export(): WalletData {
+    return {
+      address: this.address,
+      privateKey: this.privateKey,
+      publicKey: this.publicKey
+    };
+  }
 
-    return bytesToHex(signedEncoded as Uint8Array);
+  /**
+   * Encrypt wallet into JSON keystore (Web3 Secret Storage v3)
+   * @param password - Encryption password
+   * @param options - KDF options (scrypt by default)
+   * @returns Keystore JSON string (geth / MetaMask compatible)
+   *
+   * @example
+   * ```typescript
+   * const json = await wallet.encrypt('secret');
+   * fs.writeFileSync('keystore.json', json);
+   * ```
+   */
+  async encrypt(password: string, options: EncryptOptions = {}): Promise<string> {
+    const keystore = await encryptKeystore(this.privateKey, this.address, password, options);
+    return JSON.stringify(keystore);
   }
 
   /**
-   * Convert value to RLP-compatible format
+   * Load wallet from JSON keystore
+   * @param json - Keystore JSON string or object
+   * @param password - Decryption password
+   * @throws InvalidPasswordError if password is wrong
    */
-  private toRlpNumber(value: number | string | bigint): Uint8Array {
-    let num: bigint;
+  static async fromEncryptedJson(json: string | KeystoreV3, password: string): Promise<Wallet> {
+    const keystore: KeystoreV3 = typeof json === 'string' ? JSON.parse(json) : json;
+    const privateKey = await decryptKeystore(keystore, password);
+    const wallet = new Wallet(privateKey);
 
-    if (typeof value === 'string') {
-      num = value.startsWith('0x') ? BigInt(value) : BigInt(value);
-    } else {
-      num = BigInt(value);
+    if (keystore.address && wallet.address.slice(2).toLowerCase() !== keystore.address.replace(/^0x/, '').toLowerCase()) {
+      throw new Error('Keystore address does not match decrypted key');
     }
 
-    if (num === 0n) {
-      return new Uint8Array(0);
-    }
+    return wallet;
+  }
 
-    const hex = num.toString(16);
-    const paddedHex = hex.length % 2 ? '0' + hex : hex;
-    return hexToBytes(paddedHex);
+  /**
+   * Create wallet from mnemonic (BIP-39 / BIP-44)
+   * @param mnemonic - Mnemonic phrase
+   * @param path - Derivation path (default: m/44'/60'/0'/0/0)
+   * @param passphrase - Optional BIP-39 passphrase
+   *
+   * @example
+   * ```typescript
+   * const wallet = Wallet.fromMnemonic('test test test ... junk');
+   * const second = Wallet.fromMnemonic(phrase, "m/44'/60'/0'/0/1");
+   * ```
+   */
+  static fromMnemonic(
+    mnemonic: string,
+    path: string = DEFAULT_DERIVATION_PATH,
+    passphrase: string = ''
+  ): Wallet {
+    const node = HDNode.fromMnemonic(mnemonic, passphrase).derivePath(path);
+    return new Wallet(node.privateKey);
   }
 
   /**
-   * Export wallet data
+   * Derive first N accounts from mnemonic (m/44'/60'/0'/0/i)
+   * @param mnemonic - Mnemonic phrase
+   * @param count - Number of accounts
+   * @param options - Passphrase and base path (default: m/44'/60'/0'/0)
    */
-  export(): WalletData {
-    return {
-      address: this.address,
-      privateKey: this.privateKey,
-      publicKey: this.publicKey
-    };
+  static accountsFromMnemonic(
+    mnemonic: string,
+    count: number,
+    options: { passphrase?: string; basePath?: string; startIndex?: number } = {}
+  ): Wallet[] {
+    const master = HDNode.fromMnemonic(mnemonic, options.passphrase || '');
+    const start = options.startIndex || 0;
+    const wallets: Wallet[] = [];
+
+    for (let i = start; i < start + count; i++) {
+      const node = master.derivePath(accountPath(i, options.basePath));
+      wallets.push(new Wallet(node.privateKey));
+    }
+
+    return wallets;
   }
 
   /**
-   * Create wallet from mnemonic (BIP-39)
-   * Note: Requires additional library for full BIP-39 support
+   * Generate new mnemonic phrase
+   * @param words - Number of words (12 or 24)
    */
-  static fromMnemonic(mnemonic: string, path: string = "m/44'/60'/0'/0/0"): Wallet {
-    throw new Error('Mnemonic support requires bip39 library. Use: npm install bip39 hdkey');
+  static generateMnemonic(words: 12 | 24 = 12): string {
+    return generateMnemonic(words);
   }
 }
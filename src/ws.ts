@@ -3,13 +3,28 @@
  * Real-time subscriptions for blockchain events
  */
 
-import { SubscriptionType, SubscriptionOptions, NewHeadEvent, LogEvent } from './types';
+import {
+  SubscriptionType,
+  SubscriptionOptions,
+  NewHeadEvent,
+  LogEvent,
+  Formatters,
+  WebSocketConstructor,
+  WebSocketLike,
+  WSClientOptions
+} from './types';
+import { createRpcError, NetworkError, TimeoutError } from './errors';
+import { createFormatters } from './formatter';
 
 type EventCallback = (data: any) => void;
 
+// WebSocket.OPEN (not every implementation exposes the constant)
+const OPEN = 1;
+
 export class WSClient {
   private url: string;
-  private ws: WebSocket | null = null;
+  private ws: WebSocketLike | null = null;
+  private WebSocketImpl: WebSocketConstructor;
   private subscriptions: Map<string, EventCallback> = new Map();
   private requestId: number = 0;
   private pendingRequests: Map<number, { resolve: Function; reject: Function }> = new Map();
@@ -17,15 +32,18 @@ export class WSClient {
   private maxReconnectAttempts: number = 5;
   private reconnectDelay: number = 1000;
   private autoReconnect: boolean = true;
+  private formatters: Formatters;
 
   // Event handlers
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
 
-  constructor(url: string) {
+  constructor(url: string, options: WSClientOptions = {}) {
     // Convert http to ws
     this.url = url.replace(/^http/, 'ws');
+    this.formatters = createFormatters(options.formatters);
+    this.WebSocketImpl = options.WebSocket || (globalThis as any).WebSocket;
   }
 
   /**
@@ -34,7 +52,7 @@ export class WSClient {
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.url);
+        this.ws = new this.WebSocketImpl(this.url);
 
         this.ws.onopen = () => {
           this.reconnectAttempts = 0;
@@ -43,12 +61,13 @@ export class WSClient {
         };
 
         this.ws.onclose = () => {
+          this.rejectPending(new NetworkError('WebSocket connection closed'));
           this.onDisconnect?.();
           this.handleDisconnect();
         };
 
         this.ws.onerror = (event) => {
-          const error = new Error('WebSocket error');
+          const error = new NetworkError('WebSocket error', event);
           this.onError?.(error);
           reject(error);
         };
@@ -80,14 +99,16 @@ export class WSClient {
    * Check if connected
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.ws?.readyState === OPEN;
   }
 
   /**
    * Subscribe to new block headers
    */
   async subscribeNewHeads(callback: (block: NewHeadEvent) => void): Promise<string> {
-    return this.subscribe('newHeads', {}, callback);
+    return this.subscribe('newHeads', {}, (head) => {
+      callback(this.formatters.block(head));
+    });
   }
 
   /**
@@ -106,7 +127,9 @@ export class WSClient {
     options: SubscriptionOptions,
     callback: (log: LogEvent) => void
   ): Promise<string> {
-    return this.subscribe('logs', options, callback);
+    return this.subscribe('logs', options, (log) => {
+      callback(this.formatters.log(log));
+    });
   }
 
   /**
@@ -180,8 +203,8 @@ export class WSClient {
    */
   private send(method: string, params: any[] = []): Promise<any> {
     return new Promise((resolve, reject) => {
-      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-        reject(new Error('WebSocket not connected'));
+      if (!this.ws || this.ws.readyState !== OPEN) {
+        reject(new NetworkError('WebSocket not connected'));
         return;
       }
 
@@ -199,12 +222,22 @@ export class WSClient {
       setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
-          reject(new Error('Request timeout'));
+          reject(new TimeoutError(`WebSocket request ${method} timed out after 30000ms`));
         }
       }, 30000);
     });
   }
 
+  /**
+   * Fail requests still waiting for a response
+   */
+  private rejectPending(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
   /**
    * Handle incoming WebSocket message
    */
@@ -228,7 +261,7 @@ export class WSClient {
         if (pending) {
           this.pendingRequests.delete(message.id);
           if (message.error) {
-            pending.reject(new Error(`RPC Error: ${message.error.message}`));
+            pending.reject(createRpcError(message.error));
           } else {
             pending.resolve(message.result);
           }
@@ -0,0 +1,162 @@
+/**
+ * ABI codec tests
+ * Vectors from the Solidity ABI specification (docs.soliditylang.org/en/latest/abi-spec.html)
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { keccak256 } from 'js-sha3';
+import { decodeParameters, encodeParameters, formatAbiItem, parseAbiItem } from '../src/abi';
+
+/**
+ * Selector and arguments, as sent in a transaction
+ */
+function encodeCall(signature: string, args: any[]): string {
+  const item = parseAbiItem(signature);
+  const selector = '0x' + keccak256(formatAbiItem(item, 'sighash')).slice(0, 8);
+  return selector + encodeParameters(item.inputs || [], args).slice(2);
+}
+
+/**
+ * Join 32-byte words given as hex without 0x
+ */
+function words(...hex: string[]): string {
+  return hex.map(word => word.padStart(64, '0')).join('');
+}
+
+/**
+ * Left-aligned word (bytesN, string and bytes contents)
+ */
+function right(hex: string): string {
+  return hex.padEnd(64, '0');
+}
+
+function utf8(str: string): string {
+  return Buffer.from(str, 'utf8').toString('hex');
+}
+
+// ============ Specification Examples ============
+
+test('baz(uint32,bool)', () => {
+  const data = encodeCall('function baz(uint32 x, bool y) returns (bool r)', [69, true]);
+  assert.equal(data, '0xcdcd77c0' + words('45', '1'));
+  assert.deepEqual(decodeParameters(['uint32', 'bool'], '0x' + data.slice(10)), [69n, true]);
+});
+
+test('bar(bytes3[2])', () => {
+  const data = encodeCall('function bar(bytes3[2] xy)', [['0x616263', '0x646566']]);
+  assert.equal(data, '0xfce353f6' + right('616263') + right('646566'));
+  assert.deepEqual(decodeParameters(['bytes3[2]'], '0x' + data.slice(10)), [['0x616263', '0x646566']]);
+});
+
+test('sam(bytes,bool,uint256[])', () => {
+  const data = encodeCall('function sam(bytes name, bool z, uint256[] data)', ['0x' + utf8('dave'), true, [1, 2, 3]]);
+  assert.equal(data, '0xa5643bf2' + words(
+    '60', '1', 'a0',
+    '4'
+  ) + right(utf8('dave')) + words('3', '1', '2', '3'));
+
+  const [name, z, values] = decodeParameters(['bytes', 'bool', 'uint256[]'], '0x' + data.slice(10));
+  assert.equal(name, '0x' + utf8('dave'));
+  assert.equal(z, true);
+  assert.deepEqual(values, [1n, 2n, 3n]);
+});
+
+test('f(uint256,uint32[],bytes10,bytes)', () => {
+  const args = [0x123, [0x456, 0x789], '0x' + utf8('1234567890'), '0x' + utf8('Hello, world!')];
+  const data = encodeCall('function f(uint256 a, uint32[] b, bytes10 c, bytes d)', args);
+  assert.equal(data, '0x8be65246' + words('123', '80') + right(utf8('1234567890')) + words(
+    'e0',
+    '2', '456', '789',
+    'd'
+  ) + right(utf8('Hello, world!')));
+
+  assert.deepEqual(
+    decodeParameters(['uint256', 'uint32[]', 'bytes10', 'bytes'], '0x' + data.slice(10)),
+    [0x123n, [0x456n, 0x789n], args[2], args[3]]
+  );
+});
+
+test('g(uint256[][],string[])', () => {
+  const args = [[[1, 2], [3]], ['one', 'two', 'three']];
+  const data = encodeCall('function g(uint256[][] a, string[] b)', args);
+  assert.equal(data, '0x2289b18c' + words(
+    '40', '140',
+    // a: two nested arrays
+    '2', '40', 'a0',
+    '2', '1', '2',
+    '1', '3',
+    // b: three strings
+    '3', '60', 'a0', 'e0',
+    '3'
+  ) + right(utf8('one')) + words('3') + right(utf8('two')) + words('5') + right(utf8('three')));
+
+  assert.deepEqual(
+    decodeParameters(['uint256[][]', 'string[]'], '0x' + data.slice(10)),
+    [[[1n, 2n], [3n]], ['one', 'two', 'three']]
+  );
+});
+
+test('int256 negative values are two\'s complement', () => {
+  assert.equal(encodeParameters(['int256'], [-1]), '0x' + 'f'.repeat(64));
+  assert.equal(encodeParameters(['int8'], [-128]), '0x' + 'f'.repeat(62) + '80');
+  assert.deepEqual(decodeParameters(['int8', 'int256'], '0x' + 'f'.repeat(62) + '80' + 'f'.repeat(64)), [-128n, -1n]);
+});
+
+// ============ Tuples ============
+
+test('dynamic tuple array', () => {
+  const param = { type: 'tuple[]', name: 'items', components: [{ type: 'uint256', name: 'id' }, { type: 'string', name: 'name' }] };
+  const items = [{ id: 1n, name: 'a' }, { id: 2n, name: 'b' }];
+  const data = encodeParameters([param], [items]);
+
+  assert.equal(data, '0x' + words(
+    '20',
+    '2', '40', 'c0',
+    '1', '40', '1'
+  ) + right(utf8('a')) + words('2', '40', '1') + right(utf8('b')));
+  assert.deepEqual(decodeParameters([param], data), [items]);
+});
+
+test('nested tuple arrays', () => {
+  const param = {
+    type: 'tuple[2]',
+    name: 'orders',
+    components: [
+      { type: 'address', name: 'owner' },
+      {
+        type: 'tuple[]',
+        name: 'lines',
+        components: [{ type: 'uint32', name: 'item' }, { type: 'bytes', name: 'meta' }]
+      }
+    ]
+  };
+  const owner = '0x5B38Da6a701c568545dCfcB03FcB875f56beddC4';
+  const orders = [
+    { owner, lines: [{ item: 1n, meta: '0x' }, { item: 2n, meta: '0xdeadbeef' }] },
+    { owner, lines: [] }
+  ];
+
+  const data = encodeParameters([param], [orders]);
+  assert.equal(formatAbiItem(parseAbiItem('function place((address,(uint32,bytes)[])[2] orders)'), 'sighash'),
+    'place((address,(uint32,bytes)[])[2])');
+  assert.deepEqual(decodeParameters([param], data), [orders]);
+});
+
+// ============ Range Checks ============
+
+test('uintN rejects out-of-range values', () => {
+  assert.throws(() => encodeParameters(['uint8'], [256]));
+  assert.throws(() => encodeParameters(['uint8'], [-1]));
+  assert.throws(() => encodeParameters(['uint32'], [2n ** 32n]));
+  assert.throws(() => encodeParameters(['uint256'], [2n ** 256n]));
+  assert.equal(encodeParameters(['uint8'], [255]), '0x' + words('ff'));
+});
+
+test('intN rejects out-of-range values', () => {
+  assert.throws(() => encodeParameters(['int8'], [128]));
+  assert.throws(() => encodeParameters(['int8'], [-129]));
+  assert.throws(() => encodeParameters(['int256'], [2n ** 255n]));
+  assert.throws(() => encodeParameters(['int256'], [-(2n ** 255n) - 1n]));
+  assert.equal(encodeParameters(['int8'], [127]), '0x' + words('7f'));
+});
@@ -0,0 +1,109 @@
+/**
+ * RPC cache tests
+ * Reorg invalidation of entries within reorg depth
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RPCCache } from '../src/cache';
+import { numberToHex, sleep } from '../src/utils';
+
+function hash(label: string): string {
+  return '0x' + label.padStart(64, '0');
+}
+
+function block(number: number, label: string, parent: string) {
+  return { number: numberToHex(number), hash: hash(label), parentHash: hash(parent) };
+}
+
+/**
+ * Lookup of a receipt mined at `number`, counting requests that reach the node
+ */
+function receiptAt(cache: RPCCache, number: number) {
+  const tx = hash(`7${number}`);
+  const lookup = {
+    calls: 0,
+    get: () => cache.wrap('eth_getTransactionReceipt', [tx], async () => {
+      lookup.calls++;
+      return { transactionHash: tx, blockNumber: numberToHex(number), status: '0x1' };
+    })
+  };
+  return lookup;
+}
+
+function observeBlock(cache: RPCCache, result: ReturnType<typeof block>) {
+  return cache.wrap('eth_getBlockByHash', [result.hash, false], async () => result);
+}
+
+test('caches recent receipts until the block changes', async () => {
+  const cache = new RPCCache();
+  await observeBlock(cache, block(10, 'a10', 'a9'));
+  const receipt = receiptAt(cache, 10);
+
+  await receipt.get();
+  await receipt.get();
+  assert.equal(receipt.calls, 1);
+});
+
+test('same-height replacement invalidates entries of that block', async () => {
+  const cache = new RPCCache();
+  await observeBlock(cache, block(10, 'a10', 'a9'));
+  const receipt = receiptAt(cache, 10);
+  await receipt.get();
+
+  await observeBlock(cache, block(10, 'b10', 'a9'));
+  await receipt.get();
+  assert.equal(receipt.calls, 2);
+});
+
+test('longer chain on another parent invalidates from the fork point', async () => {
+  const cache = new RPCCache();
+  await observeBlock(cache, block(9, 'a9', 'a8'));
+  await observeBlock(cache, block(10, 'a10', 'a9'));
+  const at9 = receiptAt(cache, 9);
+  const at10 = receiptAt(cache, 10);
+  await at9.get();
+  await at10.get();
+
+  // New chain: b11 builds on b10, so block 10 was replaced
+  await observeBlock(cache, block(11, 'b11', 'b10'));
+  await at9.get();
+  await at10.get();
+  assert.deepEqual([at9.calls, at10.calls], [1, 2]);
+
+  // b10 builds on b9: the fork goes one block deeper
+  await observeBlock(cache, block(10, 'b10', 'b9'));
+  await at9.get();
+  assert.equal(at9.calls, 2);
+});
+
+test('head moving back invalidates entries from the new head', async () => {
+  const cache = new RPCCache();
+  await cache.wrap('eth_blockNumber', [], async () => numberToHex(12));
+  const lookups = [10, 11, 12].map(number => receiptAt(cache, number));
+  for (const lookup of lookups) await lookup.get();
+
+  await cache.wrap('eth_blockNumber', [], async () => numberToHex(11));
+  for (const lookup of lookups) await lookup.get();
+  assert.deepEqual(lookups.map(lookup => lookup.calls), [1, 2, 2]);
+});
+
+test('recent entries expire, final entries are kept', async () => {
+  const cache = new RPCCache({ recentTtl: 1, reorgDepth: 12 });
+  await cache.wrap('eth_blockNumber', [], async () => numberToHex(100));
+  const recent = receiptAt(cache, 99);
+  await recent.get();
+
+  let calls = 0;
+  const final = () => cache.wrap('eth_getBalance', ['0x01', numberToHex(50)], async () => {
+    calls++;
+    return '0x1';
+  });
+  await final();
+
+  await sleep(5);
+  await recent.get();
+  await final();
+  assert.equal(recent.calls, 2);
+  assert.equal(calls, 1);
+});
@@ -0,0 +1,98 @@
+/**
+ * Fallback provider tests
+ * Each endpoint URL is served by its own MockProvider through a stubbed fetch
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FallbackProvider } from '../src/fallback';
+import { MockProvider } from '../src/mock';
+import { NanoPyError } from '../src/errors';
+
+const ADDRESS = '0x' + '44'.repeat(20);
+
+/**
+ * Route fetch calls to a MockProvider per URL (a missing URL is unreachable)
+ */
+async function withNodes(nodes: Record<string, MockProvider>, fn: () => Promise<void>): Promise<void> {
+  const original = globalThis.fetch;
+  globalThis.fetch = (async (url: any, init: RequestInit) => {
+    const node = nodes[String(url)];
+    if (!node) throw new TypeError('fetch failed');
+    const response = await node.request(JSON.parse(init.body as string));
+    return new Response(JSON.stringify(response), { status: 200 });
+  }) as typeof fetch;
+  try {
+    await fn();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+function node(balance: bigint): MockProvider {
+  return new MockProvider({ accounts: { [ADDRESS]: balance } });
+}
+
+test('fails over to the next endpoint when one is unreachable', async () => {
+  const backup = node(1n);
+  await withNodes({ 'http://backup': backup }, async () => {
+    const provider = new FallbackProvider([
+      { url: 'http://down', priority: 0 },
+      { url: 'http://backup', priority: 1 }
+    ]);
+
+    assert.equal(await provider.getBalance(ADDRESS), '0x1');
+    const [down, up] = provider.getEndpointStats();
+    assert.equal(down.failures, 1);
+    assert.equal(up.requests, 1);
+  });
+});
+
+test('quorum answers with the value enough endpoints agree on', async () => {
+  const nodes = { 'http://a': node(7n), 'http://b': node(7n), 'http://c': node(9n) };
+  await withNodes(nodes, async () => {
+    const provider = new FallbackProvider(Object.keys(nodes), { quorum: 2 });
+
+    assert.equal(await provider.getBalance(ADDRESS), '0x7');
+  });
+});
+
+test('quorum counts endpoint weights', async () => {
+  const nodes = { 'http://heavy': node(7n), 'http://b': node(9n), 'http://c': node(8n) };
+  await withNodes(nodes, async () => {
+    const provider = new FallbackProvider([
+      { url: 'http://heavy', weight: 2 },
+      'http://b',
+      'http://c'
+    ], { quorum: 2 });
+
+    // Heavy endpoint reaches the quorum on its own, the others never agree
+    assert.equal(await provider.getBalance(ADDRESS), '0x7');
+  });
+});
+
+test('quorum fails when endpoints disagree', async () => {
+  await withNodes({ 'http://a': node(1n), 'http://b': node(2n) }, async () => {
+    const provider = new FallbackProvider(['http://a', 'http://b'], { quorum: 2 });
+
+    await assert.rejects(provider.getBalance(ADDRESS), (error: any) =>
+      error instanceof NanoPyError && error.code === 'QUORUM_NOT_REACHED'
+    );
+  });
+});
+
+test('quorum block number is the highest reached by enough endpoints', async () => {
+  const nodes = { 'http://a': node(0n), 'http://b': node(0n) };
+  nodes['http://a'].mine(5);
+  // One block behind
+  nodes['http://b'].mine(4);
+  await withNodes(nodes, async () => {
+    const provider = new FallbackProvider(Object.keys(nodes), { quorum: 2 });
+
+    assert.equal(await provider.getBlockNumber(), '0x4');
+  });
+});
+
+test('rejects a quorum above the total weight', () => {
+  assert.throws(() => new FallbackProvider(['http://a', 'http://b'], { quorum: 3 }), /cannot be reached/);
+});
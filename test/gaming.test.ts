@@ -0,0 +1,35 @@
+/**
+ * Gaming helper tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GameSession } from '../src/gaming';
+import { verifyMessage } from '../src/signature';
+import { Signer } from '../src/types';
+import { Wallet } from '../src/wallet';
+
+test('game session signs actions with any Signer', async () => {
+  const wallet = new Wallet();
+  const signed: Array<string | Uint8Array> = [];
+  // Not a Wallet instance, as a browser wallet would be
+  const signer: Signer = {
+    getAddress: async () => wallet.address,
+    signMessage: message => {
+      signed.push(message);
+      return wallet.signMessage(message);
+    },
+    signTypedData: (domain, types, value, primaryType) => wallet.signTypedData(domain, types, value, primaryType)
+  };
+
+  const session = await GameSession.start(signer, '0x' + '11'.repeat(20));
+  const info = session.getSessionInfo();
+  assert.equal(info.player, wallet.address);
+  assert.match(info.sessionId, /^0x[0-9a-f]{16}$/);
+
+  const signature = await session.signAction('move', { x: 3 });
+  const message = JSON.parse(signed[0] as string);
+  assert.equal(message.sessionId, info.sessionId);
+  assert.deepEqual(message.data, { x: 3 });
+  assert.equal(verifyMessage(signed[0], signature), wallet.address);
+});
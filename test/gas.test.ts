@@ -0,0 +1,145 @@
+/**
+ * Gas oracle and fee population tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NanoPy } from '../src/index';
+import { GasOracle } from '../src/gas';
+import { MockProvider } from '../src/mock';
+import { parseTransaction } from '../src/transaction';
+import { NanoPyOptions, ParsedTransaction } from '../src/types';
+import { Wallet } from '../src/wallet';
+
+const GWEI = 1000000000n;
+const TO = '0x' + '22'.repeat(20);
+
+const FEE_HISTORY = {
+  oldestBlock: '0x1',
+  // Last entry is the next block's base fee
+  baseFeePerGas: ['0x3b9aca00', '0x3b9aca00', '0x3b9aca00', '0x77359400'],
+  gasUsedRatio: [0.5, 0, 0.9],
+  reward: [
+    ['0x3b9aca00', '0x77359400', '0xb2d05e00'],
+    ['0x0', '0x0', '0x0'],
+    ['0xb2d05e00', '0xee6b2800', '0x12a05f200']
+  ]
+};
+
+function setup(options: NanoPyOptions = {}) {
+  const wallet = new Wallet();
+  const mock = new MockProvider({ accounts: { [wallet.address]: 10n ** 20n } });
+  const client = new NanoPy('http://localhost:8545', { transport: mock, ...options });
+  return { wallet, mock, client };
+}
+
+function sent(mock: MockProvider): ParsedTransaction[] {
+  return mock.getCalls('eth_sendRawTransaction').map(call => parseTransaction(call.params[0]));
+}
+
+// ============ Gas Oracle ============
+
+test('suggestions from fee history percentiles, ignoring empty blocks', async () => {
+  const { mock, client } = setup();
+  mock.on('eth_feeHistory', FEE_HISTORY);
+
+  const suggestions = await new GasOracle(client.rpc).getSuggestions();
+  assert.equal(suggestions.source, 'feeHistory');
+  assert.equal(suggestions.baseFeePerGas, 2n * GWEI);
+  assert.deepEqual(
+    [suggestions.slow, suggestions.standard, suggestions.fast].map(fees => fees.maxPriorityFeePerGas),
+    [3n * GWEI, 4n * GWEI, 5n * GWEI]
+  );
+  assert.equal(suggestions.standard.maxFeePerGas, 2n * 2n * GWEI + 4n * GWEI);
+  mock.assertCalled('eth_feeHistory', ['0x14', 'latest', [10, 50, 90]]);
+});
+
+test('suggestions are cached until the next block', async () => {
+  const { mock, client } = setup();
+  mock.on('eth_feeHistory', FEE_HISTORY);
+  const oracle = new GasOracle(client.rpc);
+
+  await oracle.getSuggestions();
+  await oracle.getSuggestions();
+  mock.mine();
+  await oracle.getSuggestions();
+  mock.assertCalled('eth_feeHistory', undefined, 2);
+});
+
+test('falls back to tips paid in recent blocks without fee history', async () => {
+  const { wallet, mock, client } = setup();
+  for (const tip of [1n, 2n, 3n]) {
+    await client.sendTransaction(wallet, { to: TO, value: 1n, maxFeePerGas: 10n * GWEI, maxPriorityFeePerGas: tip * GWEI });
+  }
+  const oracle = new GasOracle(client.rpc, { percentiles: { slow: 1, standard: 50, fast: 100 } });
+
+  const suggestions = await oracle.getSuggestions();
+  assert.equal(suggestions.source, 'blocks');
+  assert.deepEqual(
+    [suggestions.slow, suggestions.standard, suggestions.fast].map(fees => fees.maxPriorityFeePerGas),
+    [1n * GWEI, 2n * GWEI, 3n * GWEI]
+  );
+
+  // Unsupported method is not asked again
+  mock.mine();
+  await oracle.getSuggestions();
+  mock.assertCalled('eth_feeHistory', [undefined, undefined, [1, 50, 100]], 1);
+});
+
+test('uses the node tip on an idle chain', async () => {
+  const { mock, client } = setup();
+  mock.gasPrice = 3n * GWEI;
+
+  const suggestions = await new GasOracle(client.rpc).getSuggestions();
+  assert.equal(suggestions.source, 'gasPrice');
+  assert.equal(suggestions.fast.maxPriorityFeePerGas, 3n * GWEI);
+  assert.equal(suggestions.fast.maxFeePerGas, 2n * GWEI + 3n * GWEI);
+});
+
+test('rejects unordered percentiles', () => {
+  const { client } = setup();
+  assert.throws(() => new GasOracle(client.rpc, { percentiles: { slow: 60 } }), /ascending/);
+});
+
+// ============ Fee Population ============
+
+test('fills EIP-1559 fees from the configured strategy', async () => {
+  const { wallet, mock, client } = setup({ feeStrategy: 'fast' });
+  mock.on('eth_feeHistory', FEE_HISTORY);
+
+  await client.sendTransaction(wallet, { to: TO, value: 1n });
+  const [tx] = sent(mock);
+  assert.equal(tx.type, 2);
+  assert.equal(tx.maxPriorityFeePerGas, 5n * GWEI);
+  assert.equal(tx.maxFeePerGas, 2n * 2n * GWEI + 5n * GWEI);
+});
+
+test('keeps fee fields that are set', async () => {
+  const { wallet, mock, client } = setup();
+  mock.on('eth_feeHistory', FEE_HISTORY);
+
+  await client.sendTransaction(wallet, { to: TO, value: 1n, maxPriorityFeePerGas: GWEI });
+  await client.sendTransaction(wallet, { to: TO, value: 1n, gasPrice: 7n * GWEI });
+  const [eip1559, legacy] = sent(mock);
+  assert.equal(eip1559.maxPriorityFeePerGas, GWEI);
+  assert.equal(eip1559.maxFeePerGas, 2n * 2n * GWEI + 4n * GWEI);
+  assert.equal(legacy.type, 0);
+  assert.equal(legacy.gasPrice, 7n * GWEI);
+});
+
+test('legacy gas price when EIP-1559 is off', async () => {
+  const { wallet, mock, client } = setup({ eip1559: false });
+  mock.on('eth_feeHistory', FEE_HISTORY);
+
+  await client.sendTransaction(wallet, { to: TO, value: 1n });
+  const [tx] = sent(mock);
+  assert.equal(tx.type, 0);
+  assert.equal(tx.gasPrice, 2n * GWEI + 4n * GWEI);
+});
+
+test('rejects fee fields that contradict the type', async () => {
+  const { wallet, client } = setup();
+
+  await assert.rejects(client.sendTransaction(wallet, { to: TO, type: 0, maxFeePerGas: GWEI }), /use gasPrice/);
+  await assert.rejects(client.sendTransaction(wallet, { to: TO, type: 2, gasPrice: GWEI }), /cannot set gasPrice/);
+});
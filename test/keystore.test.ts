@@ -0,0 +1,64 @@
+/**
+ * Keystore tests
+ * Vectors from the Web3 Secret Storage definition
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decryptKeystore, encryptKeystore } from '../src/keystore';
+import { InvalidPasswordError } from '../src/errors';
+
+const PRIVATE_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+const ADDRESS = '0x008aeeda4d805471df9b2a5b0f38a0c3bcba786b';
+
+test('decrypts the PBKDF2 test vector', async () => {
+  const keystore: any = {
+    version: 3,
+    id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+      ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+      kdf: 'pbkdf2',
+      kdfparams: {
+        c: 262144,
+        dklen: 32,
+        prf: 'hmac-sha256',
+        salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd'
+      },
+      mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2'
+    }
+  };
+  assert.equal(await decryptKeystore(keystore, 'testpassword'), PRIVATE_KEY);
+});
+
+test('decrypts the scrypt test vector', async () => {
+  const keystore: any = {
+    version: 3,
+    id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+    Crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+      ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+      kdf: 'scrypt',
+      kdfparams: {
+        dklen: 32,
+        n: 262144,
+        r: 1,
+        p: 8,
+        salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19'
+      },
+      mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097'
+    }
+  };
+  assert.equal(await decryptKeystore(keystore, 'testpassword'), PRIVATE_KEY);
+});
+
+test('round-trips and rejects a wrong password', async () => {
+  for (const options of [{ kdf: 'scrypt' as const, n: 1024 }, { kdf: 'pbkdf2' as const, c: 1000 }]) {
+    const keystore = await encryptKeystore(PRIVATE_KEY, ADDRESS, 'secret', options);
+    assert.equal(keystore.address, ADDRESS.slice(2));
+    assert.equal(await decryptKeystore(JSON.stringify(keystore), 'secret'), PRIVATE_KEY);
+    await assert.rejects(decryptKeystore(keystore, 'wrong'), InvalidPasswordError);
+  }
+});
@@ -0,0 +1,78 @@
+/**
+ * Rate limiter tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RateLimiter } from '../src/limiter';
+import { RPCClient } from '../src/rpc';
+import { MockProvider } from '../src/mock';
+import { sleep } from '../src/utils';
+
+test('runs at most maxConcurrent tasks, in scheduling order', async () => {
+  const limiter = new RateLimiter({ maxConcurrent: 2 });
+  const started: number[] = [];
+  let peak = 0;
+
+  await Promise.all([0, 1, 2, 3, 4].map(i => limiter.schedule(async () => {
+    started.push(i);
+    peak = Math.max(peak, limiter.running);
+    await sleep(5);
+  })));
+
+  assert.deepEqual(started, [0, 1, 2, 3, 4]);
+  assert.equal(peak, 2);
+  assert.equal(limiter.pending, 0);
+});
+
+test('spaces requests beyond the burst by the rate', async () => {
+  const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 2 });
+  const start = Date.now();
+  const times = await Promise.all([0, 1, 2, 3].map(() => limiter.schedule(async () => Date.now() - start)));
+
+  assert.ok(times[1] < 15, `burst dispatched at once (${times[1]}ms)`);
+  assert.ok(times[3] >= 35, `rate applied after the burst (${times[3]}ms)`);
+});
+
+test('pauses dispatching after a throttle', async () => {
+  const limiter = new RateLimiter();
+  limiter.throttle(40);
+  const start = Date.now();
+
+  await limiter.schedule(async () => undefined);
+  assert.ok(Date.now() - start >= 35);
+});
+
+test('task errors are passed on and free the slot', async () => {
+  const limiter = new RateLimiter({ maxConcurrent: 1 });
+  await assert.rejects(limiter.schedule(async () => {
+    throw new Error('boom');
+  }), /boom/);
+  assert.equal(await limiter.schedule(async () => 'next'), 'next');
+});
+
+test('rejects invalid limits', () => {
+  assert.throws(() => new RateLimiter({ maxConcurrent: 0 }), /maxConcurrent/);
+  assert.throws(() => new RateLimiter({ requestsPerSecond: 0 }), /requestsPerSecond/);
+});
+
+test('RPCClient keeps requests within the limit', async () => {
+  const mock = new MockProvider();
+  let active = 0;
+  let peak = 0;
+  const rpc = new RPCClient('http://localhost:8545', {
+    rateLimit: { maxConcurrent: 2 },
+    transport: {
+      request: async payload => {
+        peak = Math.max(peak, ++active);
+        await sleep(5);
+        active--;
+        return mock.request(payload);
+      }
+    }
+  });
+
+  await Promise.all([1, 2, 3, 4, 5].map(() => rpc.getBlockNumber()));
+  assert.equal(peak, 2);
+  mock.assertCalled('eth_blockNumber', undefined, 5);
+});
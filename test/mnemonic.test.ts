@@ -0,0 +1,37 @@
+/**
+ * Mnemonic and HD derivation tests
+ * Vectors from BIP-39 (trezor/python-mnemonic) and BIP-32
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { entropyToMnemonic, HDNode, mnemonicToEntropy, mnemonicToSeed, validateMnemonic } from '../src/mnemonic';
+import { bytesToHex } from '../src/utils';
+import { Wallet } from '../src/wallet';
+
+const ABANDON = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('BIP-39 entropy and checksum', () => {
+  assert.equal(entropyToMnemonic('0x' + '00'.repeat(16)), ABANDON);
+  assert.equal(mnemonicToEntropy(ABANDON), '0x' + '00'.repeat(16));
+  assert.equal(validateMnemonic(ABANDON), true);
+  assert.equal(validateMnemonic(ABANDON.replace(/about$/, 'abandon')), false);
+});
+
+test('BIP-39 seed with passphrase', () => {
+  assert.equal(
+    bytesToHex(mnemonicToSeed(ABANDON, 'TREZOR')),
+    '0xc55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+  );
+});
+
+test('BIP-32 master key from seed', () => {
+  const node = HDNode.fromSeed('0x000102030405060708090a0b0c0d0e0f');
+  assert.equal(node.privateKey, '0xe8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35');
+  assert.equal(node.chainCode, '0x873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508');
+});
+
+test('BIP-44 account derivation', () => {
+  const wallet = Wallet.fromMnemonic('test test test test test test test test test test test junk');
+  assert.equal(wallet.address, '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+});
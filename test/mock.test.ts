@@ -0,0 +1,81 @@
+/**
+ * Mock provider tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NanoPy } from '../src/index';
+import { MockProvider, MockRpcError } from '../src/mock';
+import { InsufficientFundsError, RpcError } from '../src/errors';
+import { Wallet } from '../src/wallet';
+
+const RECIPIENT = '0x' + '44'.repeat(20);
+
+function setup(balance: bigint = 10n ** 20n) {
+  const wallet = new Wallet();
+  const mock = new MockProvider({ accounts: { [wallet.address]: balance } });
+  const client = new NanoPy('http://localhost:8545', { transport: mock, retry: { retries: 0 } });
+  return { wallet, mock, client };
+}
+
+test('mines transfers and updates balances', async () => {
+  const { wallet, mock, client } = setup();
+
+  const receipt = await client.send(wallet, RECIPIENT, '1');
+  assert.equal(receipt.status, 1);
+  assert.equal(receipt.blockNumber, 1);
+  assert.equal(mock.getBalance(RECIPIENT), 10n ** 18n);
+  assert.equal(await client.getBalance(RECIPIENT), 10n ** 18n);
+  assert.equal(mock.getNonce(wallet.address), 1);
+  mock.assertCalled('eth_sendRawTransaction', undefined, 1);
+});
+
+test('rejects transfers the sender cannot pay for', async () => {
+  const { wallet, mock, client } = setup(10n ** 15n);
+
+  await assert.rejects(client.send(wallet, RECIPIENT, '1'), InsufficientFundsError);
+  assert.equal(mock.getBalance(RECIPIENT), 0n);
+});
+
+test('scripted responses take precedence, latest first', async () => {
+  const { mock, client } = setup();
+  mock.on('eth_getBalance', '0x1');
+  mock.on('eth_getBalance', '0x2', [RECIPIENT]);
+  mock.once('eth_getBalance', (params: any[]) => BigInt(params[0].length));
+
+  assert.equal(await client.getBalance(RECIPIENT), 42n);
+  assert.equal(await client.getBalance(RECIPIENT), 2n);
+  assert.equal(await client.getBalance('0x' + '55'.repeat(20)), 1n);
+});
+
+test('scripted errors become typed RPC errors', async () => {
+  const { mock, client } = setup();
+  mock.fail('eth_blockNumber', { code: -32603, message: 'internal error' });
+  mock.on('eth_gasPrice', () => {
+    throw new MockRpcError(-32000, 'header not found');
+  });
+
+  await assert.rejects(client.getBlockNumber(), (error: any) => error instanceof RpcError && error.rpcCode === -32603);
+  await assert.rejects(client.rpc.getGasPrice(), /header not found/);
+});
+
+test('mined blocks chain by parent hash', async () => {
+  const { mock, client } = setup();
+  assert.equal(mock.mine(2), 2);
+
+  const [one, two] = await Promise.all([client.getBlock(1), client.getBlock(2)]);
+  assert.equal(two?.parentHash, one?.hash);
+  assert.equal(await client.getBlockNumber(), 2);
+});
+
+test('call assertions report what was called', async () => {
+  const { mock, client } = setup();
+  await client.getBalance(RECIPIENT);
+
+  mock.assertCalled('eth_getBalance', [RECIPIENT, 'latest'], 1);
+  mock.assertNotCalled('eth_sendRawTransaction');
+  assert.throws(() => mock.assertCalled('eth_call'), /Expected eth_call to be called at least once, got 0/);
+
+  mock.reset();
+  assert.equal(mock.getCalls().length, 0);
+});
@@ -0,0 +1,120 @@
+/**
+ * Nonce manager tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NanoPy } from '../src/index';
+import { MockProvider, MockRpcError } from '../src/mock';
+import { NonceManager } from '../src/nonce';
+import { parseTransaction } from '../src/transaction';
+import { TimeoutError } from '../src/errors';
+import { Transport } from '../src/types';
+import { Wallet } from '../src/wallet';
+
+const TO = '0x' + '22'.repeat(20);
+
+function setup(transport?: (mock: MockProvider) => Transport) {
+  const wallet = new Wallet();
+  const mock = new MockProvider({ accounts: { [wallet.address]: 10n ** 20n } });
+  const client = new NanoPy('http://localhost:8545', { transport: transport ? transport(mock) : mock, retry: { retries: 0 } });
+  return { wallet, mock, client };
+}
+
+/**
+ * Accept raw transactions into a pool without mining, rejecting the given nonces once
+ */
+function pool(mock: MockProvider, reject: number[] = []): number[] {
+  const accepted: number[] = [];
+  mock.on('eth_sendRawTransaction', (params: any[]) => {
+    const tx = parseTransaction(params[0]);
+    if (reject.includes(tx.nonce)) {
+      reject.splice(reject.indexOf(tx.nonce), 1);
+      throw new MockRpcError(-32000, 'intrinsic gas too low');
+    }
+    accepted.push(tx.nonce);
+    return tx.hash;
+  });
+  return accepted;
+}
+
+test('reserves consecutive nonces from the pending count', async () => {
+  const { wallet, mock, client } = setup();
+  mock.setNonce(wallet.address, 5);
+  const nonces = new NonceManager(client.rpc);
+
+  assert.deepEqual(await Promise.all([1, 2, 3].map(() => nonces.next(wallet.address))), [5, 6, 7]);
+  mock.assertCalled('eth_getTransactionCount', undefined, 1);
+});
+
+test('released nonce below the counter is handed out first', async () => {
+  const { wallet, client } = setup();
+  const nonces = new NonceManager(client.rpc);
+  await nonces.next(wallet.address);
+  await nonces.next(wallet.address);
+  await nonces.next(wallet.address);
+
+  nonces.release(wallet.address, 0);
+  assert.equal(await nonces.next(wallet.address), 0);
+  assert.equal(await nonces.next(wallet.address), 3);
+});
+
+test('releasing the latest nonces moves the counter back', async () => {
+  const { wallet, client } = setup();
+  const nonces = new NonceManager(client.rpc);
+  for (let i = 0; i < 4; i++) await nonces.next(wallet.address);
+
+  nonces.release(wallet.address, 2);
+  nonces.release(wallet.address, 3);
+  assert.equal(await nonces.next(wallet.address), 2);
+  assert.equal(await nonces.next(wallet.address), 3);
+  assert.equal(await nonces.next(wallet.address), 4);
+});
+
+test('resync drops released nonces the node has used', async () => {
+  const { wallet, mock, client } = setup();
+  const nonces = new NonceManager(client.rpc);
+  for (let i = 0; i < 3; i++) await nonces.next(wallet.address);
+  nonces.release(wallet.address, 0);
+
+  // Sent from another process meanwhile
+  mock.setNonce(wallet.address, 1);
+  nonces.resync(wallet.address);
+  assert.equal(await nonces.next(wallet.address), 3);
+});
+
+test('rejection in the middle of parallel sends leaves no gap', async () => {
+  const { wallet, mock, client } = setup();
+  const accepted = pool(mock, [0]);
+
+  const results = await Promise.allSettled([1, 2, 3].map(() =>
+    client.submitTransaction(wallet, { to: TO, value: 1n, gasLimit: 21000 })
+  ));
+  assert.deepEqual(results.map(r => r.status), ['rejected', 'fulfilled', 'fulfilled']);
+  assert.deepEqual(accepted, [1, 2]);
+
+  // Next transaction fills the gap instead of queueing behind it
+  await client.submitTransaction(wallet, { to: TO, value: 1n, gasLimit: 21000 });
+  await client.submitTransaction(wallet, { to: TO, value: 1n, gasLimit: 21000 });
+  assert.deepEqual(accepted, [1, 2, 0, 3]);
+});
+
+test('timeout after broadcast keeps the nonce reserved', async () => {
+  let fail = true;
+  const { wallet, mock, client } = setup(mock => ({
+    request: async payload => {
+      const response = await mock.request(payload);
+      if (fail && !Array.isArray(payload) && payload.method === 'eth_sendRawTransaction') {
+        fail = false;
+        throw new TimeoutError('Request timeout after 30000ms');
+      }
+      return response;
+    }
+  }));
+
+  await assert.rejects(client.submitTransaction(wallet, { to: TO, value: 1n, gasLimit: 21000 }), TimeoutError);
+  // The transaction reached the node: the next one must not reuse nonce 0
+  const response = await client.submitTransaction(wallet, { to: TO, value: 1n, gasLimit: 21000 });
+  assert.equal(await response.getNonce(), 1);
+  assert.equal(mock.getNonce(wallet.address), 2);
+});
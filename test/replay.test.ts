@@ -0,0 +1,80 @@
+/**
+ * Record & replay tests
+ * Traffic is recorded against a MockProvider and replayed without it
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NanoPy } from '../src/index';
+import { MockProvider } from '../src/mock';
+import { RecordingTransport, ReplayTransport } from '../src/replay';
+import { ReplayMismatchError } from '../src/errors';
+import { RPCFixture } from '../src/types';
+import { Wallet } from '../src/wallet';
+
+const RECIPIENT = '0x' + '44'.repeat(20);
+const PRIVATE_KEY = '0x' + '11'.repeat(32);
+
+test('replays a recorded transfer', async () => {
+  const wallet = new Wallet(PRIVATE_KEY);
+  const mock = new MockProvider({ accounts: { [wallet.address]: 10n ** 20n } });
+  const recorder = new RecordingTransport(mock);
+  const recorded = await new NanoPy('http://localhost:8545', { transport: recorder }).send(wallet, RECIPIENT, '1');
+
+  // JSON round trip, as when read from a fixture file
+  const fixture: RPCFixture = JSON.parse(JSON.stringify(recorder.fixture));
+  const replay = new ReplayTransport(fixture);
+  const replayed = await new NanoPy('http://localhost:8545', { transport: replay }).send(wallet, RECIPIENT, '1');
+
+  assert.equal(replayed.transactionHash, recorded.transactionHash);
+  replay.assertDone();
+});
+
+test('matches params regardless of hex case and key order', async () => {
+  const replay = new ReplayTransport({
+    version: 1,
+    entries: [{ method: 'eth_call', params: [{ to: '0xABCD', data: '0x01' }, 'latest'], result: '0x2a' }]
+  });
+
+  const response: any = await replay.request({
+    jsonrpc: '2.0', id: 7, method: 'eth_call', params: [{ data: '0x01', to: '0xabcd' }, 'latest']
+  });
+  assert.deepEqual(response, { jsonrpc: '2.0', id: 7, result: '0x2a' });
+});
+
+test('strict replay rejects unknown and exhausted requests', async () => {
+  const fixture: RPCFixture = {
+    version: 1,
+    entries: [
+      { method: 'eth_blockNumber', params: [], result: '0x1' },
+      { method: 'eth_getBalance', params: [RECIPIENT, 'latest'], result: '0x0' }
+    ]
+  };
+  const replay = new ReplayTransport(fixture);
+  const request = { jsonrpc: '2.0' as const, id: 1, method: 'eth_blockNumber', params: [] };
+
+  await replay.request(request);
+  await assert.rejects(replay.request(request), ReplayMismatchError);
+  await assert.rejects(replay.request({ ...request, method: 'eth_chainId' }), /eth_chainId was never recorded/);
+  assert.throws(() => replay.assertDone(), /1 recorded request\(s\) were not replayed/);
+
+  const lenient = new ReplayTransport(fixture, { strict: false });
+  await lenient.request(request);
+  assert.deepEqual(await lenient.request(request), { jsonrpc: '2.0', id: 1, result: '0x1' });
+});
+
+test('scrubbed fixtures contain no secrets and still replay', async () => {
+  const mock = new MockProvider();
+  mock.on('personal_unlockAccount', true);
+  const recorder = new RecordingTransport(mock, { scrub: true });
+  const request = {
+    jsonrpc: '2.0' as const, id: 1, method: 'personal_unlockAccount', params: [RECIPIENT, 'hunter2', 60]
+  };
+  await recorder.request(request);
+
+  const fixture = recorder.fixture;
+  assert.equal(JSON.stringify(fixture).includes('hunter2'), false);
+
+  const replay = new ReplayTransport(fixture, { scrub: true });
+  assert.deepEqual(await replay.request(request), { jsonrpc: '2.0', id: 1, result: true });
+});
@@ -0,0 +1,90 @@
+/**
+ * Transaction response tests: waiting, speed-up and cancellation
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NanoPy } from '../src/index';
+import { MockProvider } from '../src/mock';
+import { parseTransaction } from '../src/transaction';
+import { TransactionReplacedError } from '../src/errors';
+import { Wallet } from '../src/wallet';
+
+const TO = '0x' + '22'.repeat(20);
+
+/**
+ * Client whose first transaction stays pending; later ones are mined
+ */
+async function pending() {
+  const wallet = new Wallet();
+  const mock = new MockProvider({ accounts: { [wallet.address]: 10n ** 20n } });
+  mock.once('eth_sendRawTransaction', (params: any[]) => parseTransaction(params[0]).hash);
+  const client = new NanoPy('http://localhost:8545', { transport: mock, pollingInterval: 1 });
+
+  const response = await client.submitTransaction(wallet, { to: TO, value: 5n, gasLimit: 21000 });
+  return { wallet, mock, client, response };
+}
+
+function lastSent(mock: MockProvider) {
+  const calls = mock.getCalls('eth_sendRawTransaction');
+  return parseTransaction(calls[calls.length - 1].params[0]);
+}
+
+test('wait resolves with the receipt once mined', async () => {
+  const wallet = new Wallet();
+  const mock = new MockProvider({ accounts: { [wallet.address]: 10n ** 20n } });
+  const client = new NanoPy('http://localhost:8545', { transport: mock, pollingInterval: 1 });
+
+  const response = await client.submitTransaction(wallet, { to: TO, value: 5n });
+  mock.mine(2);
+  const receipt = await response.wait(3, 1000);
+  assert.equal(receipt.transactionHash, response.hash);
+});
+
+test('speedUp resends at the same nonce with bumped fees', async () => {
+  const { mock, response } = await pending();
+  const original = lastSent(mock);
+
+  const faster = await response.speedUp(20);
+  const replacement = lastSent(mock);
+  assert.equal(replacement.nonce, original.nonce);
+  assert.equal(replacement.value, 5n);
+  assert.equal(replacement.maxFeePerGas, (original.maxFeePerGas! * 120n + 99n) / 100n);
+  assert.equal(replacement.maxPriorityFeePerGas, (original.maxPriorityFeePerGas! * 120n + 99n) / 100n);
+  assert.equal(faster.hash, replacement.hash);
+});
+
+test('waiting on the original follows its speed-up', async () => {
+  const { response } = await pending();
+  const faster = await response.speedUp();
+
+  const receipt = await response.wait(1, 1000);
+  assert.equal(receipt.transactionHash, faster.hash);
+});
+
+test('cancel replaces with a zero-value transfer to self', async () => {
+  const { wallet, mock, response } = await pending();
+
+  const cancellation = await response.cancel();
+  const replacement = lastSent(mock);
+  assert.equal(replacement.nonce, 0);
+  assert.equal(replacement.to?.toLowerCase(), wallet.address.toLowerCase());
+  assert.equal(replacement.value, 0n);
+  assert.equal(mock.getBalance(TO), 0n);
+
+  await assert.rejects(response.wait(1, 1000), (error: any) =>
+    error instanceof TransactionReplacedError
+    && error.reason === 'cancelled'
+    && error.replacement === cancellation.hash
+  );
+});
+
+test('wait reports a replacement by an unknown transaction', async () => {
+  const { wallet, client, response } = await pending();
+  // Same nonce sent from elsewhere, bypassing the response chain
+  await client.submitTransaction(wallet, { to: TO, value: 1n, gasLimit: 21000, nonce: 0, maxFeePerGas: 10n ** 10n, maxPriorityFeePerGas: 10n ** 10n });
+
+  await assert.rejects(response.wait(1, 1000), (error: any) =>
+    error instanceof TransactionReplacedError && error.reason === 'replaced' && error.replacement === null
+  );
+});
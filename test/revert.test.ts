@@ -0,0 +1,77 @@
+/**
+ * Revert handling tests
+ * Transactions that fail when mined throw the same error from every send path
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { keccak256 } from 'js-sha3';
+import { NanoPy } from '../src/index';
+import { encodeParameters } from '../src/abi';
+import { MockProvider } from '../src/mock';
+import { CallRevertedError, TransactionRevertedError } from '../src/errors';
+import { Wallet } from '../src/wallet';
+
+const TOKEN = '0x' + '33'.repeat(20);
+const ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'error InsufficientBalance(uint256 available, uint256 required)'
+];
+
+function revertData(signature: string, types: string[], args: any[]): string {
+  return '0x' + keccak256(signature).slice(0, 8) + encodeParameters(types, args).slice(2);
+}
+
+/**
+ * Client whose transactions are mined with status 0, replays reverting with data
+ */
+function setup(data: string) {
+  const wallet = new Wallet();
+  const mock = new MockProvider({ accounts: { [wallet.address]: 10n ** 20n } });
+  mock.fail('eth_call', { code: 3, message: 'execution reverted', data });
+
+  const client = new NanoPy('http://localhost:8545', {
+    transport: {
+      request: async payload => {
+        const response: any = await mock.request(payload);
+        if (!Array.isArray(payload) && payload.method === 'eth_getTransactionReceipt' && response.result) {
+          response.result = { ...response.result, status: '0x0' };
+        }
+        return response;
+      }
+    }
+  });
+  return { wallet, client };
+}
+
+test('sendTransaction throws TransactionRevertedError with receipt and reason', async () => {
+  const { wallet, client } = setup(revertData('Error(string)', ['string'], ['Not enough tokens']));
+
+  const error = await client.sendTransaction(wallet, { to: TOKEN, data: '0x1234', gasLimit: 50000 })
+    .then(() => assert.fail('expected a revert'), error => error);
+  assert.ok(error instanceof TransactionRevertedError);
+  assert.ok(error instanceof CallRevertedError);
+  assert.equal(error.code, 'TRANSACTION_REVERTED');
+  assert.equal(error.receipt.status, 0);
+  assert.equal(error.reason?.message, 'Not enough tokens');
+});
+
+test('Contract.send throws the same error with the custom error decoded', async () => {
+  const { wallet, client } = setup(revertData('InsufficientBalance(uint256,uint256)', ['uint256', 'uint256'], [10n, 1000n]));
+  const token = client.contract(TOKEN, ABI);
+
+  const error = await token.send(wallet, 'transfer', [wallet.address, 1000n])
+    .then(() => assert.fail('expected a revert'), error => error);
+  assert.ok(error instanceof TransactionRevertedError);
+  assert.equal(error.receipt.status, 0);
+  assert.equal(error.reason?.name, 'InsufficientBalance');
+  assert.deepEqual(error.reason?.args, [10n, 1000n]);
+});
+
+test('submitted transaction resolves wait() with the failed receipt', async () => {
+  const { wallet, client } = setup('0x');
+
+  const response = await client.submitTransaction(wallet, { to: TOKEN, value: 1n, gasLimit: 21000 });
+  assert.equal((await response.wait()).status, 0);
+  await assert.rejects(client.confirmTransaction(response), TransactionRevertedError);
+});
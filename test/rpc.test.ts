@@ -0,0 +1,123 @@
+/**
+ * RPC client tests: retry policy and request batching
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RPCClient } from '../src/rpc';
+import { MockProvider } from '../src/mock';
+import { RpcError } from '../src/errors';
+import { RPCClientOptions, RPCRequest, RPCResponse } from '../src/types';
+
+const ADDRESS = '0x' + '44'.repeat(20);
+const RATE_LIMITED = { code: -32005, message: 'limit exceeded' };
+
+/**
+ * Client on a MockProvider, recording every payload that reaches the transport
+ */
+function setup(options: RPCClientOptions = {}, intercept?: (payload: RPCRequest[], response: RPCResponse[]) => RPCResponse[]) {
+  const mock = new MockProvider();
+  const payloads: Array<RPCRequest | RPCRequest[]> = [];
+  const rpc = new RPCClient('http://localhost:8545', {
+    retry: { minDelay: 1, jitter: false },
+    ...options,
+    transport: {
+      request: async payload => {
+        payloads.push(payload);
+        const response = await mock.request(payload);
+        return intercept && Array.isArray(payload) ? intercept(payload, response as RPCResponse[]) : response;
+      }
+    }
+  });
+  return { mock, rpc, payloads };
+}
+
+// ============ Retry ============
+
+test('retries rate limit errors until the node answers', async () => {
+  const retries: number[] = [];
+  const { mock, rpc } = setup({ retry: { minDelay: 1, jitter: false, onRetry: (_error, attempt) => retries.push(attempt) } });
+  mock.fail('eth_blockNumber', RATE_LIMITED, undefined, true);
+  mock.fail('eth_blockNumber', RATE_LIMITED, undefined, true);
+
+  assert.equal(await rpc.getBlockNumber(), '0x0');
+  assert.deepEqual(retries, [1, 2]);
+});
+
+test('gives up after the configured retries', async () => {
+  const { mock, rpc } = setup({ retry: { retries: 2, minDelay: 1 } });
+  mock.fail('eth_blockNumber', RATE_LIMITED);
+
+  await assert.rejects(rpc.getBlockNumber(), (error: any) => error instanceof RpcError && error.rpcCode === -32005);
+  mock.assertCalled('eth_blockNumber', undefined, 3);
+});
+
+test('does not retry errors that will not change', async () => {
+  const { mock, rpc } = setup();
+  mock.fail('eth_getBalance', { code: -32602, message: 'invalid argument 0' });
+
+  await assert.rejects(rpc.getBalance('0x1234'), /invalid argument/);
+  mock.assertCalled('eth_getBalance', undefined, 1);
+});
+
+test('does not repeat non-idempotent methods', async () => {
+  const { mock, rpc } = setup();
+  mock.fail('eth_sendTransaction', RATE_LIMITED);
+
+  await assert.rejects(rpc.call('eth_sendTransaction', [{ from: ADDRESS }]), RpcError);
+  mock.assertCalled('eth_sendTransaction', undefined, 1);
+});
+
+test('custom retry rule', async () => {
+  const { mock, rpc } = setup({ retry: { minDelay: 1, shouldRetry: (error: any) => error.rpcCode === -32000 } });
+  mock.fail('eth_chainId', { code: -32000, message: 'header not found' }, undefined, true);
+
+  assert.equal(await rpc.getChainId(), '0x539');
+});
+
+// ============ Batching ============
+
+test('merges calls made in the same tick into one batch', async () => {
+  const { rpc, payloads } = setup({ batch: true });
+
+  const [block, chainId, balance] = await Promise.all([rpc.getBlockNumber(), rpc.getChainId(), rpc.getBalance(ADDRESS)]);
+  assert.deepEqual([block, chainId, balance], ['0x0', '0x539', '0x0']);
+  assert.equal(payloads.length, 1);
+  assert.equal((payloads[0] as RPCRequest[]).length, 3);
+});
+
+test('splits batches at maxSize and sends single calls unbatched', async () => {
+  const { rpc, payloads } = setup({ batch: { maxSize: 2 } });
+
+  await Promise.all([rpc.getBlockNumber(), rpc.getChainId(), rpc.getBalance(ADDRESS)]);
+  assert.deepEqual(payloads.map(p => Array.isArray(p) ? p.length : 1), [2, 1]);
+});
+
+test('error of one batched call only rejects that call', async () => {
+  const { mock, rpc } = setup({ batch: true });
+  mock.fail('eth_getBalance', { code: -32602, message: 'invalid argument 0' });
+
+  const [block, balance] = await Promise.allSettled([rpc.getBlockNumber(), rpc.getBalance('0x1234')]);
+  assert.equal(block.status, 'fulfilled');
+  assert.equal(balance.status, 'rejected');
+});
+
+test('call dropped from a batch response is retried on its own', async () => {
+  let dropped = false;
+  const { rpc, payloads } = setup({ batch: true }, (requests, responses) => {
+    if (dropped) return responses;
+    dropped = true;
+    return responses.filter(response => response.id !== requests[1].id);
+  });
+
+  assert.deepEqual(await Promise.all([rpc.getBlockNumber(), rpc.getChainId()]), ['0x0', '0x539']);
+  assert.deepEqual(payloads.map(p => Array.isArray(p) ? p.length : 1), [2, 1]);
+});
+
+test('explicit batch returns results in request order', async () => {
+  const { mock, rpc } = setup();
+  mock.setBalance(ADDRESS, 5n);
+
+  const balances = await rpc.getBalances([ADDRESS, '0x' + '55'.repeat(20)]);
+  assert.deepEqual([...balances.values()], [5n, 0n]);
+});
@@ -0,0 +1,96 @@
+/**
+ * HTTP transport tests
+ * fetch is replaced by a stub answering with scripted responses
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HttpTransport } from '../src/transport';
+import { RPCClient } from '../src/rpc';
+import { NetworkError, RpcError } from '../src/errors';
+
+const URL = 'http://localhost:8545';
+const REQUEST = { jsonrpc: '2.0' as const, id: 1, method: 'eth_blockNumber', params: [] };
+
+/**
+ * Answer fetch calls with the given responses in order, restoring fetch afterwards
+ */
+async function withFetch(responses: Response[], fn: (calls: RequestInit[]) => Promise<void>): Promise<void> {
+  const original = globalThis.fetch;
+  const calls: RequestInit[] = [];
+  globalThis.fetch = (async (_url: any, init: RequestInit) => {
+    calls.push(init);
+    const response = responses.shift();
+    if (!response) throw new TypeError('fetch failed');
+    return response;
+  }) as typeof fetch;
+  try {
+    await fn(calls);
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+function json(body: any, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+test('returns the JSON-RPC body of a successful response', async () => {
+  await withFetch([json({ jsonrpc: '2.0', id: 1, result: '0x10' })], async calls => {
+    const response = await new HttpTransport(URL).request(REQUEST);
+    assert.deepEqual(response, { jsonrpc: '2.0', id: 1, result: '0x10' });
+    assert.equal(calls[0].method, 'POST');
+    assert.deepEqual(JSON.parse(calls[0].body as string), REQUEST);
+  });
+});
+
+test('HTTP error with a JSON-RPC body keeps status, Retry-After and the RPC error', async () => {
+  const body = { jsonrpc: '2.0', id: 1, error: { code: -32005, message: 'daily request count exceeded' } };
+  await withFetch([json(body, 429, { 'retry-after': '2' })], async () => {
+    const error = await new HttpTransport(URL).request(REQUEST).then(() => assert.fail('expected an error'), error => error);
+    assert.ok(error instanceof NetworkError);
+    assert.equal(error.status, 429);
+    assert.equal(error.retryAfter, 2000);
+    assert.ok(error.cause instanceof RpcError);
+    assert.equal((error.cause as RpcError).rpcCode, -32005);
+    assert.match(error.message, /daily request count exceeded/);
+  });
+});
+
+test('HTTP error with a non-JSON body keeps status and Retry-After', async () => {
+  const retryAt = new Date(Date.now() + 60000).toUTCString();
+  await withFetch([new Response('<html>Service Unavailable</html>', { status: 503, headers: { 'retry-after': retryAt } })], async () => {
+    const error = await new HttpTransport(URL).request(REQUEST).then(() => assert.fail('expected an error'), error => error);
+    assert.ok(error instanceof NetworkError);
+    assert.equal(error.status, 503);
+    const delay = error.retryAfter ?? 0;
+    assert.ok(delay > 50000 && delay <= 60000);
+    assert.equal(error.cause, undefined);
+  });
+});
+
+test('invalid JSON in a successful response is a network error', async () => {
+  await withFetch([new Response('not json', { status: 200 })], async () => {
+    await assert.rejects(new HttpTransport(URL).request(REQUEST), /Invalid JSON-RPC response/);
+  });
+});
+
+test('RPCClient retries after the delay the node asked for', async () => {
+  const responses = [
+    new Response('Too Many Requests', { status: 429, headers: { 'retry-after': '0' } }),
+    json({ jsonrpc: '2.0', id: 1, result: '0x2a' })
+  ];
+  await withFetch(responses, async calls => {
+    const rpc = new RPCClient(URL, { retry: { minDelay: 1, jitter: false } });
+    assert.equal(await rpc.getBlockNumber(), '0x2a');
+    assert.equal(calls.length, 2);
+  });
+});
+
+test('client errors are not retried', async () => {
+  await withFetch([new Response('Forbidden', { status: 403 })], async calls => {
+    const rpc = new RPCClient(URL, { retry: { minDelay: 1 } });
+    await assert.rejects(rpc.getBlockNumber(), (error: any) => error instanceof NetworkError && error.status === 403);
+    assert.equal(calls.length, 1);
+  });
+});